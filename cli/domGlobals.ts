@@ -0,0 +1,8 @@
+import { JSDOM } from 'jsdom';
+
+// The conversion core in src/ uses the browser DOMParser and XMLSerializer, which Node does not provide.
+export const installDomGlobals = () => {
+  const { window } = new JSDOM('');
+  globalThis.DOMParser = window.DOMParser;
+  globalThis.XMLSerializer = window.XMLSerializer;
+};
@@ -0,0 +1,591 @@
+#!/usr/bin/env node
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { getRosterBirthDates, matchAthleteRoster, parseAthleteRoster } from '../src/athleteRoster';
+import { getClubProfileKey, parseClubProfiles } from '../src/clubDetails';
+import {
+  courseConversionTables,
+  defaultCourseConversionTable,
+  parseCourseConversionTable
+} from '../src/courseConversion';
+import { buildEntryListHtml } from '../src/entryLists';
+import { buildFeeCsv, buildFeeInvoiceHtml, calculateClubFees, formatFeeAmount, hasLenexFees } from '../src/fees';
+import { buildLenexEntriesXml, sanitizeLenexXmlForEntries } from '../src/lenexExport';
+import type { ClubEntries } from '../src/lenexExport';
+import { parseLenexMeet } from '../src/lenexParser';
+import { validateLenexMeetDefinition } from '../src/lenexValidation';
+import { createLxfArchive, unpackLenexBytes } from '../src/lxfArchive';
+import { decodePlainTextWithSetting, decodeXmlBytes } from '../src/textDecoding';
+import type {
+  ConversionOptions,
+  CourseConversionTable,
+  EncodingDetection,
+  EntryLimits,
+  LenexMergeReport,
+  RosterAthlete,
+  UniPColumnBinding,
+  UniPColumnMapping,
+  UniPDialect,
+  UniPEncoding,
+  UniPEncodingSetting,
+  UniPRow
+} from '../src/types';
+import { defaultUniPDialect, parseUniPDialect, uniPDialects } from '../src/unipDialects';
+import { parseUniP, unusedUniPFields } from '../src/unipParser';
+import { getClubRowIssues, groupEventsByNumber } from '../src/validation';
+import { installDomGlobals } from './domGlobals';
+
+const usage = `Usage: unip-to-lenex --meet <meet.lef> [--unip <club.txt> ...] [options] [club.txt ...]
+
+Converts one or more UNI_p club files into a single Lenex entries file.
+
+Options:
+  -m, --meet <file>       Lenex meet definition (.lef, .lxf or .xml). Mandatory.
+  -u, --unip <file>       UNI_p club file. May be repeated; extra arguments are also read as UNI_p files.
+  -o, --output <file>     Write the Lenex entries file here, zipped when it ends in .lxf.
+                          Without it, the files are only checked.
+      --club-details <file>
+                          JSON file with the code, nation, region, short name and contact of each club,
+                          keyed by the club name of the UNI_p header. Written into the CLUB.
+      --merge             Keep the clubs already in the meet file and add our athletes and entries
+                          to them (matched by club name or code) instead of replacing them.
+  -e, --encoding <name>   UNI_p text encoding: auto (default, detected per file), iso-8859-1,
+                          windows-1252 or utf-8.
+  -d, --dialect <id|file> UNI_p code tables: no (Norwegian, default), se (Swedish), en (English codes)
+                          or a JSON profile file.
+  -c, --column <field>=<binding>
+                          Read field 6, 10, 14 or 15 as license, nation or relay-swimmers
+                          (names separated by ; or |). May be repeated. Other values in these
+                          fields are reported as warnings.
+      --fees <file>       Write the entry fees of the exported rows here: a printable invoice page when
+                          the file ends in .html, CSV otherwise. Needs FEES or FEE in the meet file.
+      --entry-list <file> Write a printable entry list of the exported rows by session and event (HTML).
+      --schedule <file>   Write a printable schedule per swimmer of the exported rows (HTML).
+  -f, --format <format>   Issue report format: table (default) or json.
+  -r, --roster <file>     Athlete roster CSV (name, gender, birth date, licence) for real birth dates
+                          and licence numbers.
+      --relay-classes     Check relay classes (field 7) against the meet's age groups and
+                          write the matching age bounds on each RELAY.
+      --convert-times     Convert entry times swum in the other pool length to the meet's course.
+      --conversion-table <id|file>
+                          Course conversion table: a JSON table file, or the rough estimates
+                          per-stroke-factor (default) and seconds-per-50.
+      --max-entries-athlete <n>
+                          Individual entries per swimmer in the meet. Replaces MEET maxentriesathlete.
+      --max-entries-session <n>
+                          Individual entries per swimmer in a session. Replaces SESSION maxentriesathlete.
+      --max-relays-event <n>  Relay teams per club in an event. Replaces MEET and SESSION maxentriesrelay.
+      --max-entries-event <n>
+                          Entries per club in an event. Replaces EVENT maxentries.
+  -h, --help              Show this help.
+
+Exit status is 0 when every row was exported, 1 when any row was rejected and 2 on usage or file errors.`;
+
+const supportedEncodings: UniPEncodingSetting[] = ['auto', 'iso-8859-1', 'windows-1252', 'utf-8'];
+const columnBindingsByName: Record<string, UniPColumnBinding> = {
+  license: 'license',
+  licence: 'license',
+  nation: 'nation',
+  'relay-swimmers': 'relaySwimmers'
+};
+const reportFormats = ['table', 'json'] as const;
+type ReportFormat = (typeof reportFormats)[number];
+
+type RejectedRow = {
+  file: string;
+  club: string;
+  line: number;
+  event: number | null;
+  name: string;
+  issues: string[];
+};
+
+type WarningRow = {
+  file: string;
+  line: number;
+  name: string;
+  warnings: string[];
+};
+
+type RosterReportRow = {
+  file: string;
+  line: number;
+  name: string;
+  // Roster line numbers of the candidates, empty when the swimmer is not in the roster.
+  candidates: number[];
+};
+
+type ClubReport = {
+  file: string;
+  club: string;
+  encoding: UniPEncoding;
+  // Also reported when --encoding overrides it.
+  detection: EncodingDetection;
+  rows: number;
+  valid: number;
+};
+
+class UsageError extends Error {}
+
+const formatRowName = (row: UniPRow) => [row.firstName, row.lastName].filter(Boolean).join(' ') || row.lastName;
+
+const formatEncoding = ({ encoding, detection }: ClubReport, setting: UniPEncodingSetting) => {
+  if (setting === 'auto') {
+    return `${encoding} (detected, ${detection.confidence})`;
+  }
+  return encoding === detection.encoding ? encoding : `${encoding} (detected ${detection.encoding})`;
+};
+
+const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map((row) => row[column].length)));
+  const formatLine = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [formatLine(headers), formatLine(widths.map((width) => '-'.repeat(width))), ...rows.map(formatLine)].join('\n');
+};
+
+// Unknown options and options without their value are usage errors too.
+const parseCommandLine = (argv: string[]) => {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        meet: { type: 'string', short: 'm' },
+        unip: { type: 'string', short: 'u', multiple: true },
+        output: { type: 'string', short: 'o' },
+        'club-details': { type: 'string' },
+        merge: { type: 'boolean', default: false },
+        encoding: { type: 'string', short: 'e', default: 'auto' },
+        dialect: { type: 'string', short: 'd' },
+        column: { type: 'string', short: 'c', multiple: true },
+        fees: { type: 'string' },
+        'entry-list': { type: 'string' },
+        schedule: { type: 'string' },
+        format: { type: 'string', short: 'f', default: 'table' },
+        roster: { type: 'string', short: 'r' },
+        'relay-classes': { type: 'boolean', default: false },
+        'convert-times': { type: 'boolean', default: false },
+        'conversion-table': { type: 'string' },
+        'max-entries-athlete': { type: 'string' },
+        'max-entries-session': { type: 'string' },
+        'max-relays-event': { type: 'string' },
+        'max-entries-event': { type: 'string' },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+const parseOptions = (argv: string[]) => {
+  const { values, positionals } = parseCommandLine(argv);
+
+  if (values.help) {
+    return null;
+  }
+
+  if (!values.meet) {
+    throw new UsageError('Missing --meet <file>.');
+  }
+
+  const uniPFiles = [...(values.unip ?? []), ...positionals];
+  if (uniPFiles.length === 0) {
+    throw new UsageError('Give at least one UNI_p file.');
+  }
+
+  const encoding = values.encoding.toLowerCase() as UniPEncodingSetting;
+  if (!supportedEncodings.includes(encoding)) {
+    throw new UsageError(`Unsupported encoding "${values.encoding}". Supported: ${supportedEncodings.join(', ')}.`);
+  }
+
+  const columnMapping: UniPColumnMapping = {};
+  for (const value of values.column ?? []) {
+    const [fieldNumber, bindingName = ''] = value.split('=');
+    const binding = columnBindingsByName[bindingName.trim().toLowerCase()];
+    if (!unusedUniPFields.includes(Number(fieldNumber)) || !binding) {
+      throw new UsageError(
+        `Invalid column binding "${value}". Use <field>=<binding> with field ${unusedUniPFields.join(', ')} ` +
+          'and binding license, nation or relay-swimmers.'
+      );
+    }
+    columnMapping[Number(fieldNumber)] = binding;
+  }
+
+  const parseLimit = (name: string, value: string | undefined) => {
+    if (value === undefined) {
+      return null;
+    }
+    if (!/^[1-9]\d*$/.test(value)) {
+      throw new UsageError(`--${name} needs a positive whole number, got "${value}".`);
+    }
+    return Number(value);
+  };
+  const entryLimitOverrides: EntryLimits = {
+    athleteMeet: parseLimit('max-entries-athlete', values['max-entries-athlete']),
+    athleteSession: parseLimit('max-entries-session', values['max-entries-session']),
+    relayEvent: parseLimit('max-relays-event', values['max-relays-event']),
+    clubEvent: parseLimit('max-entries-event', values['max-entries-event'])
+  };
+
+  const format = values.format.toLowerCase() as ReportFormat;
+  if (!reportFormats.includes(format)) {
+    throw new UsageError(`Unsupported format "${values.format}". Supported: ${reportFormats.join(', ')}.`);
+  }
+
+  return {
+    meetFile: values.meet,
+    uniPFiles,
+    outputFile: values.output ?? null,
+    clubDetailsFile: values['club-details'] ?? null,
+    merge: values.merge,
+    feesFile: values.fees ?? null,
+    entryListFile: values['entry-list'] ?? null,
+    scheduleFile: values.schedule ?? null,
+    rosterFile: values.roster ?? null,
+    encoding,
+    dialect: values.dialect ?? null,
+    columnMapping,
+    format,
+    checkRelayAgeClasses: values['relay-classes'],
+    convertEntryTimes: values['convert-times'],
+    conversionTable: values['conversion-table'] ?? null,
+    entryLimitOverrides
+  };
+};
+
+// A built-in table id, or the path of a JSON table.
+const loadCourseConversionTable = async (value: string | null): Promise<CourseConversionTable> => {
+  if (!value) {
+    return defaultCourseConversionTable;
+  }
+
+  const builtInTable = courseConversionTables.find((table) => table.id === value);
+  if (builtInTable) {
+    return builtInTable;
+  }
+
+  return parseCourseConversionTable(await readFile(value, 'utf-8'), path.basename(value, path.extname(value)));
+};
+
+// A built-in profile id, or the path of a JSON profile.
+const loadUniPDialect = async (value: string | null): Promise<UniPDialect> => {
+  if (!value) {
+    return defaultUniPDialect;
+  }
+
+  const builtInDialect = uniPDialects.find((dialect) => dialect.id === value);
+  if (builtInDialect) {
+    return builtInDialect;
+  }
+
+  return parseUniPDialect(await readFile(value, 'utf-8'), path.basename(value, path.extname(value)));
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const options = parseOptions(argv);
+  if (!options) {
+    console.log(usage);
+    return 0;
+  }
+
+  installDomGlobals();
+
+  const conversionOptions: ConversionOptions = {
+    checkRelayAgeClasses: options.checkRelayAgeClasses,
+    convertEntryTimes: options.convertEntryTimes,
+    courseConversionTable: await loadCourseConversionTable(options.conversionTable),
+    entryLimitOverrides: options.entryLimitOverrides
+  };
+
+  const dialect = await loadUniPDialect(options.dialect);
+  const clubProfiles = options.clubDetailsFile ? parseClubProfiles(await readFile(options.clubDetailsFile, 'utf-8')) : {};
+
+  const { content, warnings: meetWarnings } = decodeXmlBytes(unpackLenexBytes(await readFile(options.meetFile)).bytes);
+  for (const warning of meetWarnings) {
+    console.error(`unip-to-lenex: ${options.meetFile}: ${warning}`);
+  }
+  const lenexSourceXml = sanitizeLenexXmlForEntries(content);
+  const lenexSummary = parseLenexMeet(lenexSourceXml);
+  const meetIssues = validateLenexMeetDefinition(lenexSourceXml);
+  for (const issue of meetIssues) {
+    console.error(`unip-to-lenex: ${options.meetFile}: ${issue}`);
+  }
+  const eventsByNumber = groupEventsByNumber(lenexSummary);
+
+  const roster = options.rosterFile
+    ? parseAthleteRoster(decodePlainTextWithSetting(await readFile(options.rosterFile), options.encoding).content)
+    : null;
+  const rosterAthletes: RosterAthlete[] = roster?.athletes ?? [];
+
+  const clubReports: ClubReport[] = [];
+  const rejectedRows: RejectedRow[] = [];
+  const warningRows: WarningRow[] = [];
+  const rosterReportRows: RosterReportRow[] = [];
+  let rosterMatched = 0;
+  const clubs: ClubEntries[] = [];
+
+  for (const uniPFile of options.uniPFiles) {
+    const file = path.basename(uniPFile);
+    const { content, encoding, detection } = decodePlainTextWithSetting(await readFile(uniPFile), options.encoding);
+    const parsed = parseUniP(content, dialect, options.columnMapping);
+    const issuesByLineNumber = getClubRowIssues(
+      parsed.rows,
+      eventsByNumber,
+      true,
+      conversionOptions,
+      getRosterBirthDates(parsed.rows, rosterAthletes)
+    );
+    const validRows: UniPRow[] = [];
+
+    for (const row of parsed.rows) {
+      if (row.warnings.length > 0) {
+        warningRows.push({ file, line: row.lineNumber, name: formatRowName(row), warnings: row.warnings });
+      }
+
+      const issues = issuesByLineNumber.get(row.lineNumber) ?? [];
+      if (issues.length === 0) {
+        validRows.push(row);
+        continue;
+      }
+
+      rejectedRows.push({
+        file,
+        club: parsed.clubName,
+        line: row.lineNumber,
+        event: row.eventNumber,
+        name: formatRowName(row),
+        issues
+      });
+    }
+
+    if (roster) {
+      for (const match of matchAthleteRoster(parsed.rows, rosterAthletes)) {
+        if (match.candidates.length === 1) {
+          rosterMatched += 1;
+          continue;
+        }
+
+        rosterReportRows.push({
+          file,
+          line: match.row.lineNumber,
+          name: formatRowName(match.row),
+          candidates: match.candidates.map((athlete) => athlete.lineNumber)
+        });
+      }
+    }
+
+    clubReports.push({
+      file,
+      club: parsed.clubName,
+      encoding,
+      detection,
+      rows: parsed.rows.length,
+      valid: validRows.length
+    });
+    if (validRows.length > 0) {
+      clubs.push({
+        clubName: parsed.clubName || 'Unknown Club',
+        rows: validRows,
+        details: clubProfiles[getClubProfileKey(parsed.clubName)]
+      });
+    }
+  }
+
+  const totalRows = clubReports.reduce((sum, report) => sum + report.rows, 0);
+  const validRows = clubReports.reduce((sum, report) => sum + report.valid, 0);
+  let skippedDuringBuild = 0;
+  let mergeReport: LenexMergeReport | null = null;
+
+  if (options.outputFile && clubs.length > 0) {
+    const result = buildLenexEntriesXml({
+      baseXml: lenexSourceXml,
+      clubs,
+      eventsByNumber,
+      options: conversionOptions,
+      roster: rosterAthletes,
+      merge: options.merge
+    });
+    skippedDuringBuild = result.skippedDuringBuild;
+    mergeReport = result.mergeReport;
+    if (path.extname(options.outputFile).toLowerCase() === '.lxf') {
+      const entryName = `${path.basename(options.outputFile, path.extname(options.outputFile))}.lef`;
+      await writeFile(options.outputFile, createLxfArchive(entryName, result.xml));
+    } else {
+      await writeFile(options.outputFile, result.xml, 'utf-8');
+    }
+  }
+
+  const rejectedCount = totalRows - validRows + skippedDuringBuild;
+
+  const clubFees = hasLenexFees(lenexSummary)
+    ? clubs.map((club) => ({ clubName: club.clubName, summary: calculateClubFees(club.rows, eventsByNumber, lenexSummary) }))
+    : [];
+  for (const [file, layout] of [
+    [options.entryListFile, 'events'],
+    [options.scheduleFile, 'swimmers']
+  ] as const) {
+    if (file) {
+      const html = buildEntryListHtml({ meet: lenexSummary, clubs, eventsByNumber, options: conversionOptions, layout });
+      await writeFile(file, html, 'utf-8');
+    }
+  }
+
+  if (options.feesFile) {
+    if (!hasLenexFees(lenexSummary)) {
+      console.error(`unip-to-lenex: ${options.meetFile} has no fees, ${options.feesFile} was not written.`);
+    } else if (/\.html?$/i.test(options.feesFile)) {
+      await writeFile(options.feesFile, buildFeeInvoiceHtml(lenexSummary, clubFees), 'utf-8');
+    } else {
+      await writeFile(options.feesFile, buildFeeCsv(clubFees), 'utf-8');
+    }
+  }
+
+  if (options.format === 'json') {
+    console.log(
+      JSON.stringify(
+        {
+          meet: lenexSummary.name,
+          meetIssues,
+          output: options.outputFile,
+          totalRows,
+          exportedRows: totalRows - rejectedCount,
+          rejectedRows: rejectedCount,
+          clubs: clubReports,
+          issues: rejectedRows,
+          warnings: warningRows,
+          fees: clubFees,
+          merge: mergeReport,
+          roster: roster
+            ? {
+                athletes: rosterAthletes.length,
+                matched: rosterMatched,
+                skippedLines: roster.issues,
+                unmatched: rosterReportRows.filter((row) => row.candidates.length === 0),
+                ambiguous: rosterReportRows.filter((row) => row.candidates.length > 1)
+              }
+            : null
+        },
+        null,
+        2
+      )
+    );
+  } else {
+    console.log(
+      formatTable(
+        ['File', 'Club', 'Encoding', 'Rows', 'Valid'],
+        clubReports.map((report) => [
+          report.file,
+          report.club,
+          formatEncoding(report, options.encoding),
+          String(report.rows),
+          String(report.valid)
+        ])
+      )
+    );
+
+    if (rejectedRows.length > 0) {
+      console.log('');
+      console.log(
+        formatTable(
+          ['File', 'Line', 'Event', 'Name', 'Issues'],
+          rejectedRows.map((row) => [row.file, String(row.line), String(row.event ?? ''), row.name, row.issues.join('; ')])
+        )
+      );
+    }
+
+    if (warningRows.length > 0) {
+      console.log('');
+      console.log(
+        formatTable(
+          ['File', 'Line', 'Name', 'Warnings'],
+          warningRows.map((row) => [row.file, String(row.line), row.name, row.warnings.join('; ')])
+        )
+      );
+    }
+
+    if (roster) {
+      console.log('');
+      const unmatchedCount = rosterReportRows.filter((row) => row.candidates.length === 0).length;
+      console.log(
+        `Roster: ${rosterAthletes.length} athletes · ${rosterMatched} matched · ${unmatchedCount} unmatched · ${
+          rosterReportRows.length - unmatchedCount
+        } ambiguous`
+      );
+      for (const issue of roster.issues) {
+        console.log(`Skipped roster line: ${issue}`);
+      }
+      if (rosterReportRows.length > 0) {
+        console.log(
+          formatTable(
+            ['File', 'Line', 'Name', 'Roster match'],
+            rosterReportRows.map((row) => [
+              row.file,
+              String(row.line),
+              row.name,
+              row.candidates.length === 0 ? 'Not in roster' : `Ambiguous: roster lines ${row.candidates.join(', ')}`
+            ])
+          )
+        );
+      }
+    }
+
+    if (clubFees.length > 0) {
+      console.log('');
+      console.log(
+        formatTable(
+          ['Club', 'Fee', 'Count', 'Amount'],
+          clubFees.flatMap(({ clubName, summary }) => [
+            ...summary.lines.map((line) => [clubName, line.label, String(line.count), formatFeeAmount(line.amount)]),
+            [clubName, 'Total', '', `${formatFeeAmount(summary.total)} ${summary.currency}`]
+          ])
+        )
+      );
+    }
+
+    if (mergeReport) {
+      const changes = [
+        ...mergeReport.added.map((change) => ['Added', change] as const),
+        ...mergeReport.changed.map((change) => ['Changed', change] as const)
+      ];
+      console.log('');
+      if (changes.length > 0) {
+        console.log(
+          formatTable(
+            ['Change', 'Club', 'Name', 'Event', 'Entry time'],
+            changes.map(([status, change]) => [status, change.club, change.name, change.event, change.detail])
+          )
+        );
+      }
+      console.log(
+        `Merge: ${mergeReport.added.length} entries added · ${mergeReport.changed.length} changed · ${
+          mergeReport.untouched.length
+        } untouched`
+      );
+    }
+
+    console.log('');
+    console.log(`${totalRows} rows · ${totalRows - rejectedCount} exported · ${rejectedCount} rejected`);
+    if (skippedDuringBuild > 0) {
+      console.log(`${skippedDuringBuild} rows without a registrable event were skipped during export.`);
+    }
+    if (options.outputFile) {
+      console.log(clubs.length > 0 ? `Wrote ${options.outputFile}` : 'No valid entries, no output file written.');
+    }
+  }
+
+  return rejectedCount > 0 ? 1 : 0;
+};
+
+run(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error: unknown) => {
+    console.error(`unip-to-lenex: ${error instanceof Error ? error.message : String(error)}`);
+    if (error instanceof UsageError) {
+      console.error(usage);
+    }
+    process.exitCode = 2;
+  }
+);
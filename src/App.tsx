@@ -1,86 +1,135 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { ChangeEventHandler, DragEventHandler } from 'react';
-import { parseLenexMeet } from './lenexParser';
-import { parseUniP } from './unipParser';
-import type { LenexEvent, LenexMeetSummary, UniPRow } from './types';
-
-const acceptedFileTypes = '.lef,.xml,text/xml,application/xml';
+import { getRosterBirthDates, matchAthleteRoster, parseAthleteRoster } from './athleteRoster';
+import {
+  getClubProfileKey,
+  loadStoredClubProfiles,
+  resolveClubDetails,
+  storeClubProfiles,
+  validateClubDetails
+} from './clubDetails';
+import {
+  convertEntryTime,
+  courseConversionTables,
+  isBuiltInConversionTable,
+  parseCourseConversionTable
+} from './courseConversion';
+import { buildEntryListHtml } from './entryLists';
+import type { EntryListLayout } from './entryLists';
+import { buildFeeCsv, buildFeeInvoiceHtml, calculateClubFees, formatFeeAmount, hasLenexFees } from './fees';
+import { buildLenexEntriesXml, sanitizeLenexXmlForEntries, stripNonRegistrableEventsFromLenexXml } from './lenexExport';
+import { parseLenexClubs, parseLenexMeet } from './lenexParser';
+import { validateLenexMeetDefinition } from './lenexValidation';
+import { createLxfArchive, unpackLenexBytes } from './lxfArchive';
+import {
+  buildProjectBundle,
+  createProjectId,
+  deleteProject,
+  duplicateProject,
+  listProjects,
+  parseProjectBundle,
+  saveProject
+} from './projectStorage';
+import { formatSwimTime, formatTimeDifference } from './swimTime';
+import { decodePlainTextWithSetting, decodeXmlBytes, encodePlainText, encodingLabels } from './textDecoding';
+import type {
+  AthleteRosterParseResult,
+  ClubDetails,
+  ClubProfiles,
+  ConversionOptions,
+  ConversionProject,
+  CourseConversionTable,
+  EncodingDetection,
+  EntryLimits,
+  LenexClub,
+  LenexFee,
+  LenexMeetSummary,
+  LenexMergeReport,
+  StoredFile,
+  UniPColumnBinding,
+  UniPColumnMapping,
+  UniPDialect,
+  UniPEncoding,
+  UniPEncodingSetting,
+  UniPRow
+} from './types';
+import { buildUniPFromLenexClub, formatUniPFile } from './unipExport';
+import type { UniPExportSource } from './unipExport';
+import { defaultUniPDialect, parseUniPDialect, uniPDialects } from './unipDialects';
+import { parseUniP, parseUniPLine, uniPFieldCount, unusedUniPFields } from './unipParser';
+import {
+  defaultConversionOptions,
+  findMatchingLenexEvent,
+  forbiddenRegistrationRounds,
+  getAthleteKey,
+  getClubRowIssues,
+  getTimeStandardChecks,
+  groupEventsByNumber,
+  inferBirthYear,
+  inferFullYearFromAgeGroup
+} from './validation';
+import type { TimeStandardCheck } from './validation';
+
+const acceptedFileTypes = '.lef,.lxf,.xml,text/xml,application/xml,application/zip';
 const acceptedUniPFileTypes = '.txt,.csv,text/plain';
-const xmlEncodingPattern = /<\?xml[^>]*encoding=["']([^"']+)["']/i;
-type UniPEncoding = 'iso-8859-1' | 'utf-8';
-
-const sourceRepositoryUrl = 'https://github.com/hakostra/unip-to-lenex';
-
-const normalizeEncoding = (encoding: string) => encoding.trim().toLowerCase().replace(/_/g, '-');
-
-const getSupportedEncoding = (declaredEncoding: string | null): 'utf-8' | 'iso-8859-1' => {
-  if (!declaredEncoding) {
-    return 'utf-8';
-  }
-
-  const normalized = normalizeEncoding(declaredEncoding);
-  if (normalized === 'utf-8' || normalized === 'utf8') {
-    return 'utf-8';
-  }
-
-  if (normalized === 'iso-8859-1' || normalized === 'iso8859-1' || normalized === 'latin1' || normalized === 'latin-1') {
-    return 'iso-8859-1';
-  }
-
-  throw new Error(`Unsupported XML encoding "${declaredEncoding}". Supported encodings are UTF-8 and ISO-8859-1.`);
+const acceptedRosterFileTypes = '.csv,.txt,text/csv,text/plain';
+
+type UniPClubFile = {
+  id: number;
+  fileName: string;
+  sourceFile: File;
+  // Encoding setting the file was parsed with, and the encoding that was actually used.
+  parsedEncoding: UniPEncodingSetting | null;
+  encoding: UniPEncoding | null;
+  encodingDetection: EncodingDetection | null;
+  parsedDialect: UniPDialect | null;
+  parsedColumnMapping: UniPColumnMapping | null;
+  clubName: string | null;
+  sourceRows: UniPRow[];
+  // Manually edited fields by line number. Kept apart from the parsed rows so they survive re-parsing.
+  rowEdits: Record<number, string[]>;
+  errorMessage: string | null;
 };
 
-const decodeXmlFileText = async (file: File): Promise<{ content: string; encoding: 'utf-8' | 'iso-8859-1' }> => {
-  const bytes = new Uint8Array(await file.arrayBuffer());
-  const header = new TextDecoder('iso-8859-1').decode(bytes.slice(0, 512));
-  const declaredEncoding = header.match(xmlEncodingPattern)?.[1] ?? null;
-  const encoding = getSupportedEncoding(declaredEncoding);
-
-  return {
-    content: new TextDecoder(encoding).decode(bytes),
-    encoding
-  };
+type UniPClub = UniPClubFile & {
+  rows: UniPRow[];
 };
 
-const decodePlainTextFile = async (file: File, encoding: UniPEncoding): Promise<string> => {
-  const bytes = new Uint8Array(await file.arrayBuffer());
-  return new TextDecoder(encoding).decode(bytes);
-};
+const editableUniPFields = {
+  eventNumber: 0,
+  lastName: 3,
+  firstName: 4,
+  genderAndAgeGroup: 6,
+  birthYearOrClass: 7,
+  qualificationTime: 8
+} as const;
 
-const inferFullYearFromAgeGroup = (ageGroupCode: string): string | null => {
-  const match = ageGroupCode.match(/^Born YY=(\d{2})$/);
-  if (!match) {
-    return null;
-  }
-
-  const yy = Number(match[1]);
-  const currentYearShort = new Date().getFullYear() % 100;
-  const fullYear = yy <= currentYearShort ? 2000 + yy : 1900 + yy;
-  return String(fullYear);
-};
+const sourceRepositoryUrl = 'https://github.com/hakostra/unip-to-lenex';
 
 const isParaClass = (value: string) => /^(S|SB|SM)(1[0-5]|[1-9])$/i.test(value);
 
-type HandicapAttributeName = 'free' | 'breast' | 'medley';
-
-const getHandicapFromClass = (value: string): { attribute: HandicapAttributeName; level: string } | null => {
-  const match = value.trim().toUpperCase().match(/^(SB|SM|S)(1[0-5]|[1-9])$/);
-  if (!match) {
-    return null;
+// Normalised time, so that "1.05,3" and "01:05.30" look the same in the table.
+const formatEntryTimeCell = (row: UniPRow): string => {
+  if (row.entryTime !== null) {
+    return formatSwimTime(row.entryTime);
   }
 
-  const prefix = match[1];
-  const level = match[2];
+  return row.issues.some((issue) => issue.startsWith('Field 9')) ? row.qualificationTime ?? '' : 'NT';
+};
 
-  if (prefix === 'SB') {
-    return { attribute: 'breast', level };
+const formatEncodingCell = (club: UniPClubFile): string => {
+  if (!club.encoding || !club.encodingDetection) {
+    return '';
   }
 
-  if (prefix === 'SM') {
-    return { attribute: 'medley', level };
+  const detection = club.encodingDetection;
+  if (club.parsedEncoding === 'auto') {
+    return `${encodingLabels[club.encoding]} (detected, ${detection.confidence} confidence)`;
   }
 
-  return { attribute: 'free', level };
+  return club.encoding === detection.encoding
+    ? `${encodingLabels[club.encoding]} (selected)`
+    : `${encodingLabels[club.encoding]} (selected, detected ${encodingLabels[detection.encoding]})`;
 };
 
 const formatYearClassCell = (row: UniPRow): string => {
@@ -101,437 +150,165 @@ const formatYearClassCell = (row: UniPRow): string => {
   return yearFromField7 ?? row.birthYearOrClass;
 };
 
-const getRowKey = (row: UniPRow) => `${row.lineNumber}-${row.eventNumber ?? 'x'}-${row.lastName}-${row.firstName}`;
-
-const mergeIssues = (baseIssues: string[], validationIssues: string[]) =>
-  Array.from(new Set([...baseIssues, ...validationIssues]));
-
-const forbiddenRegistrationRounds = new Set(['FIN', 'SEM', 'QUA', 'SOP', 'SOS', 'SOQ']);
-
-const getAgeAtEventYear = (row: UniPRow, event: LenexEvent): number | null => {
-  if (row.relayCount > 1) {
-    return null;
-  }
-
-  const birthYear = inferBirthYear(row);
-  if (!birthYear || !/^\d{4}$/.test(birthYear)) {
-    return null;
-  }
-
-  const eventYearMatch = event.sessionDate.match(/^(\d{4})/);
-  if (!eventYearMatch) {
-    return null;
-  }
-
-  return Number(eventYearMatch[1]) - Number(birthYear);
-};
-
-const isAgeInAnyEventAgeGroup = (age: number, event: LenexEvent): boolean => {
-  if (event.ageGroups.length === 0) {
-    return true;
-  }
-
-  return event.ageGroups.some((ageGroup) => {
-    const minOk = ageGroup.agemin < 0 || age >= ageGroup.agemin;
-    const maxOk = ageGroup.agemax < 0 || age <= ageGroup.agemax;
-    return minOk && maxOk;
-  });
-};
-
-const validateRowAgainstLenex = (row: UniPRow, eventsByNumber: Map<string, LenexEvent[]>, hasLenex: boolean): string[] => {
-  if (!hasLenex || row.eventNumber === null) {
-    return [];
-  }
-
-  const candidates = eventsByNumber.get(String(row.eventNumber)) ?? [];
-  if (candidates.length === 0) {
-    return ['Invalid event'];
-  }
-
-  const issues: string[] = [];
-
-  if (!candidates.some((event) => event.relayCount === row.relayCount)) {
-    issues.push('Invalid length');
-  }
-
-  if (!candidates.some((event) => event.distance === row.distance)) {
-    issues.push('Invalid distance');
-  }
-
-  if (row.stroke && !candidates.some((event) => event.stroke === row.stroke)) {
-    issues.push('Invalid style');
-  }
-
-  if (row.gender && !candidates.some((event) => event.gender === row.gender)) {
-    issues.push('Invalid gender');
-  }
-
-  const compatibleCandidates = candidates.filter((event) => {
-    const relayMatches = event.relayCount === row.relayCount;
-    const distanceMatches = event.distance === row.distance;
-    const strokeMatches = !row.stroke || event.stroke === row.stroke;
-    const genderMatches = !row.gender || event.gender === row.gender;
-
-    return relayMatches && distanceMatches && strokeMatches && genderMatches;
-  });
-
-  if (compatibleCandidates.length > 0) {
-    const allowedCandidateExists = compatibleCandidates.some((event) => !forbiddenRegistrationRounds.has(event.round));
-    if (!allowedCandidateExists) {
-      const warnedRounds = Array.from(new Set(compatibleCandidates.map((event) => event.round))).filter((round) =>
-        forbiddenRegistrationRounds.has(round)
-      );
-      warnedRounds.forEach((round) => issues.push(`Registration for ${round}`));
-    }
-
-    const candidatesToCheckAge = compatibleCandidates.filter((event) => !forbiddenRegistrationRounds.has(event.round));
-    const ageCheckCandidates = candidatesToCheckAge.length > 0 ? candidatesToCheckAge : compatibleCandidates;
-    const swimmerAge = getAgeAtEventYear(row, ageCheckCandidates[0]);
-
-    if (swimmerAge !== null && !ageCheckCandidates.some((event) => isAgeInAnyEventAgeGroup(swimmerAge, event))) {
-      issues.push(`Invalid age group (age ${swimmerAge} not allowed for event ${row.eventNumber})`);
-    }
-  }
-
-  return issues;
-};
-
-const toLenexEntryTime = (value: string | null): string | null => {
-  if (!value) {
-    return null;
-  }
-
-  const trimmed = value.trim();
-  const segments = trimmed.split(':');
-  if (segments.length === 2) {
-    return `00:${trimmed}`;
-  }
-  if (segments.length === 3) {
-    return trimmed;
-  }
-
-  return null;
-};
-
-const toLenexDate = (value: string | null): string | null => {
-  if (!value) {
-    return null;
-  }
-
-  const compact = value.trim();
-  if (/^\d{8}$/.test(compact)) {
-    return `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
-  }
-
-  return compact;
-};
-
-const inferBirthYear = (row: UniPRow): string | null => {
-  if (/^\d{4}$/.test(row.birthYearOrClass)) {
-    return row.birthYearOrClass;
-  }
-
-  return inferFullYearFromAgeGroup(row.ageGroupCode);
-};
-
-const findMatchingLenexEvent = (row: UniPRow, eventsByNumber: Map<string, LenexEvent[]>) => {
-  if (row.eventNumber === null) {
-    return null;
-  }
-
-  const candidates = eventsByNumber.get(String(row.eventNumber)) ?? [];
-  return (
-    candidates.find((event) => {
-      const roundAllowed = !forbiddenRegistrationRounds.has(event.round);
-      const relayMatches = event.relayCount === row.relayCount;
-      const distanceMatches = event.distance === row.distance;
-      const strokeMatches = row.stroke ? event.stroke === row.stroke : true;
-      const genderMatches = row.gender ? event.gender === row.gender : true;
-      return roundAllowed && relayMatches && distanceMatches && strokeMatches && genderMatches;
-    }) ?? null
+// Keyed by line number only, so that editing a row does not remount its inputs.
+const getRowKey = (clubId: number, row: UniPRow) => `${clubId}-${row.lineNumber}`;
+
+const applyRowEdits = (
+  rows: UniPRow[],
+  rowEdits: Record<number, string[]>,
+  dialect: UniPDialect,
+  columnMapping: UniPColumnMapping
+) =>
+  rows.map((row) =>
+    rowEdits[row.lineNumber] ? parseUniPLine(rowEdits[row.lineNumber], row.lineNumber, dialect, columnMapping) : row
   );
-};
 
-const setAttributes = (element: Element, attributes: Record<string, string | null | undefined>) => {
-  for (const [name, value] of Object.entries(attributes)) {
-    if (value !== undefined && value !== null && value !== '') {
-      element.setAttribute(name, value);
-    }
-  }
+const formatEntryLimits = (limits: EntryLimits) =>
+  [
+    limits.athleteMeet && `${limits.athleteMeet} individual entries per swimmer`,
+    limits.athleteSession && `${limits.athleteSession} individual entries per swimmer and session`,
+    limits.relayEvent && `${limits.relayEvent} relay teams per club and event`,
+    limits.clubEvent && `${limits.clubEvent} entries per club and event`
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// Empty or invalid input removes the override.
+const parseEntryLimitInput = (value: string) => (/^[1-9]\d*$/.test(value.trim()) ? Number(value) : null);
+
+const entryLimitFields: Array<{ key: keyof EntryLimits; label: string }> = [
+  { key: 'athleteMeet', label: 'Individual entries per swimmer' },
+  { key: 'athleteSession', label: 'per session' },
+  { key: 'relayEvent', label: 'Relay teams per club and event' },
+  { key: 'clubEvent', label: 'Entries per club and event' }
+];
+
+const columnBindingLabels: Record<UniPColumnBinding, string> = {
+  license: 'Athlete licence',
+  nation: 'Athlete nation',
+  relaySwimmers: 'Relay swimmers'
 };
 
-const applyAppConstructorMetadata = (doc: Document) => {
-  const lenexElement = doc.querySelector('LENEX');
-  if (!lenexElement) {
-    throw new Error('Could not find LENEX root element for export.');
+const formatFees = (fees: LenexFee[]) =>
+  fees.map((fee) => `${fee.type.toLowerCase()} ${formatFeeAmount(fee.value)} ${fee.currency}`).join(', ');
+
+const clubDetailFields: Array<{
+  key: string;
+  label: string;
+  size: number;
+  get: (details: ClubDetails) => string;
+  set: (details: ClubDetails, value: string) => ClubDetails;
+}> = [
+  { key: 'name', label: 'Name', size: 16, get: (d) => d.name, set: (d, value) => ({ ...d, name: value }) },
+  {
+    key: 'short-name',
+    label: 'Short name',
+    size: 10,
+    get: (d) => d.shortName,
+    set: (d, value) => ({ ...d, shortName: value })
+  },
+  { key: 'code', label: 'Code', size: 6, get: (d) => d.code, set: (d, value) => ({ ...d, code: value }) },
+  {
+    key: 'nation',
+    label: 'Nation',
+    size: 4,
+    get: (d) => d.nation,
+    set: (d, value) => ({ ...d, nation: value.toUpperCase() })
+  },
+  { key: 'region', label: 'Region', size: 6, get: (d) => d.region, set: (d, value) => ({ ...d, region: value }) },
+  {
+    key: 'contact-name',
+    label: 'Contact',
+    size: 14,
+    get: (d) => d.contact.name,
+    set: (d, value) => ({ ...d, contact: { ...d.contact, name: value } })
+  },
+  {
+    key: 'contact-email',
+    label: 'E-mail',
+    size: 16,
+    get: (d) => d.contact.email,
+    set: (d, value) => ({ ...d, contact: { ...d.contact, email: value } })
+  },
+  {
+    key: 'contact-phone',
+    label: 'Phone',
+    size: 10,
+    get: (d) => d.contact.phone,
+    set: (d, value) => ({ ...d, contact: { ...d.contact, phone: value } })
   }
-  lenexElement.setAttribute('version', '3.0');
-
-  let constructorElement = doc.querySelector('LENEX > CONSTRUCTOR');
-  if (!constructorElement) {
-    constructorElement = doc.createElement('CONSTRUCTOR');
-    lenexElement.insertBefore(constructorElement, lenexElement.firstChild);
-  }
-
-  // Reset existing constructor attributes from source files (for example registration).
-  Array.from(constructorElement.attributes).forEach((attribute) => constructorElement.removeAttribute(attribute.name));
-
-  setAttributes(constructorElement, {
-    name: 'UNI_p-to-Lenex',
-    version: '1'
-  });
-
-  constructorElement.replaceChildren();
-  const constructorContact = doc.createElement('CONTACT');
-  setAttributes(constructorContact, {
-    name: 'Håkon Strandenes',
-    email: 'haakon@hakostra.net'
-  });
-  constructorElement.appendChild(constructorContact);
-};
+];
 
 const sanitizeFileName = (value: string) => value.replace(/[^a-zA-Z0-9_-]+/g, '-');
 
-const formatXmlWithIndentation = (xml: string, indentUnit = '  ') => {
-  const tokens = xml
-    .replace(/>\s+</g, '><')
-    .replace(/(>)(<)(\/*)/g, '$1\n$2$3')
-    .split('\n')
-    .map((line) => line.trim())
-    .filter(Boolean);
-
-  let indentLevel = 0;
-  const formatted: string[] = [];
-
-  for (const token of tokens) {
-    const isClosingTag = /^<\//.test(token);
-    const isSelfClosingTag = /\/>$/.test(token);
-    const isXmlDeclaration = /^<\?xml/.test(token);
-    const isComment = /^<!--/.test(token);
-    const isCData = /^<!\[CDATA\[/.test(token);
-    const isDoctype = /^<!DOCTYPE/.test(token);
-
-    if (isClosingTag) {
-      indentLevel = Math.max(indentLevel - 1, 0);
-    }
-
-    const shouldIndent = !isXmlDeclaration;
-    formatted.push(`${shouldIndent ? indentUnit.repeat(indentLevel) : ''}${token}`);
-
-    const isOpeningTag = /^<[^!?/][^>]*>$/.test(token);
-    if (isOpeningTag && !isSelfClosingTag && !isComment && !isCData && !isDoctype) {
-      indentLevel += 1;
-    }
-  }
-
-  return formatted.join('\n');
-};
-
-const sanitizeLenexXmlForEntries = (xml: string): string => {
-  const doc = new DOMParser().parseFromString(xml, 'application/xml');
-  const parserError = doc.querySelector('parsererror');
-  if (parserError) {
-    throw new Error('Could not parse Lenex file.');
-  }
-
-  // Remove dynamic race data so exported entries are generated from clean meet definitions.
-  doc.querySelectorAll('EVENT > RESULTS').forEach((resultsElement) => resultsElement.remove());
-  doc.querySelectorAll('EVENT > HEATS').forEach((heatsElement) => heatsElement.remove());
-
-  const serialized = new XMLSerializer().serializeToString(doc).trimStart();
-  return serialized.startsWith('<?xml') ? serialized : `<?xml version="1.0" encoding="UTF-8"?>\n${serialized}`;
+const readFileBytes = async (file: File) => new Uint8Array(await file.arrayBuffer());
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
 };
 
-const stripNonRegistrableEventsFromLenexXml = (xml: string): string => {
-  const doc = new DOMParser().parseFromString(xml, 'application/xml');
-  const parserError = doc.querySelector('parsererror');
-  if (parserError) {
-    throw new Error('Could not parse Lenex meet file for filtering.');
+// Opens a generated page for printing. Without a new window (e.g. blocked pop-ups) the page is downloaded instead.
+const openHtmlPage = (html: string, fileName: string) => {
+  const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  if (!window.open(url, '_blank')) {
+    downloadBlob(blob, fileName);
   }
-
-  doc.querySelectorAll('EVENT').forEach((eventElement) => {
-    const round = (eventElement.getAttribute('round') ?? '').trim().toUpperCase();
-    if (forbiddenRegistrationRounds.has(round)) {
-      eventElement.remove();
-    }
-  });
-
-  applyAppConstructorMetadata(doc);
-
-  const serialized = new XMLSerializer().serializeToString(doc).trimStart();
-  const normalized = serialized.startsWith('<?xml')
-    ? serialized.replace(/^<\?xml[^>]*\?>/, '<?xml version="1.0" encoding="UTF-8"?>')
-    : `<?xml version="1.0" encoding="UTF-8"?>\n${serialized}`;
-
-  return formatXmlWithIndentation(normalized, '  ');
-};
-
-const buildLenexEntriesXml = ({
-  baseXml,
-  clubName,
-  rows,
-  eventsByNumber
-}: {
-  baseXml: string;
-  clubName: string;
-  rows: UniPRow[];
-  eventsByNumber: Map<string, LenexEvent[]>;
-}): { xml: string; skippedDuringBuild: number } => {
-  const sanitizedBaseXml = sanitizeLenexXmlForEntries(baseXml);
-  const doc = new DOMParser().parseFromString(sanitizedBaseXml, 'application/xml');
-  const parserError = doc.querySelector('parsererror');
-  if (parserError) {
-    throw new Error('Could not parse Lenex meet file for export.');
-  }
-
-  const meetElement = doc.querySelector('LENEX > MEETS > MEET');
-  if (!meetElement) {
-    throw new Error('Could not find MEET element for export.');
-  }
-
-  applyAppConstructorMetadata(doc);
-
-  let clubsElement = meetElement.querySelector(':scope > CLUBS');
-  if (!clubsElement) {
-    clubsElement = doc.createElement('CLUBS');
-    meetElement.appendChild(clubsElement);
-  }
-  clubsElement.replaceChildren();
-
-  const clubElement = doc.createElement('CLUB');
-  setAttributes(clubElement, { name: clubName || 'Unknown Club' });
-
-  const athletesElement = doc.createElement('ATHLETES');
-  const relaysElement = doc.createElement('RELAYS');
-
-  const athleteByKey = new Map<string, { athleteElement: Element; entriesElement: Element; handicapElement: Element | null }>();
-  let nextAthleteId = 1;
-  let nextRelayNumber = 1;
-  let skippedDuringBuild = 0;
-
-  for (const row of rows) {
-    const lenexEvent = findMatchingLenexEvent(row, eventsByNumber);
-    if (!lenexEvent) {
-      skippedDuringBuild += 1;
-      continue;
-    }
-
-    const entryTime = toLenexEntryTime(row.qualificationTime);
-    const meetInfoDate = toLenexDate(row.qualificationDate);
-
-    const createEntryElement = () => {
-      const entryElement = doc.createElement('ENTRY');
-      setAttributes(entryElement, {
-        eventid: lenexEvent.eventId,
-        entrytime: entryTime,
-        entrycourse: row.poolCourse
-      });
-
-      const hasQualificationLocationData = Boolean(meetInfoDate || row.qualificationPlace);
-      if (hasQualificationLocationData) {
-        const meetInfoElement = doc.createElement('MEETINFO');
-        setAttributes(meetInfoElement, {
-          course: row.poolCourse,
-          date: meetInfoDate,
-          city: row.qualificationPlace
-        });
-        entryElement.appendChild(meetInfoElement);
-      }
-
-      return entryElement;
-    };
-
-    if (row.relayCount > 1) {
-      const relayElement = doc.createElement('RELAY');
-      setAttributes(relayElement, {
-        number: String(nextRelayNumber),
-        name: row.lastName,
-        agemin: '-1',
-        agemax: '-1',
-        agetotalmin: '-1',
-        agetotalmax: '-1',
-        gender: row.gender
-      });
-      nextRelayNumber += 1;
-
-      const entriesElement = doc.createElement('ENTRIES');
-      entriesElement.appendChild(createEntryElement());
-      relayElement.appendChild(entriesElement);
-      relaysElement.appendChild(relayElement);
-      continue;
-    }
-
-    const birthYear = inferBirthYear(row);
-    const athleteKey = `${row.lastName}|${row.firstName}|${row.gender}|${birthYear ?? ''}`;
-
-    if (!athleteByKey.has(athleteKey)) {
-      const athleteElement = doc.createElement('ATHLETE');
-      setAttributes(athleteElement, {
-        athleteid: String(nextAthleteId),
-        birthdate: birthYear ? `${birthYear}-01-01` : null,
-        firstname: row.firstName,
-        lastname: row.lastName,
-        gender: row.gender
-      });
-      nextAthleteId += 1;
-
-      const entriesElement = doc.createElement('ENTRIES');
-      athleteElement.appendChild(entriesElement);
-      athletesElement.appendChild(athleteElement);
-
-      athleteByKey.set(athleteKey, { athleteElement, entriesElement, handicapElement: null });
-    }
-
-    const athleteRecord = athleteByKey.get(athleteKey);
-    if (!athleteRecord) {
-      continue;
-    }
-
-    const handicap = getHandicapFromClass(row.birthYearOrClass);
-    if (handicap) {
-      let handicapElement = athleteRecord.handicapElement;
-      if (!handicapElement) {
-        handicapElement = doc.createElement('HANDICAP');
-        athleteRecord.athleteElement.appendChild(handicapElement);
-        athleteRecord.handicapElement = handicapElement;
-      }
-      handicapElement.setAttribute(handicap.attribute, handicap.level);
-    }
-
-    athleteRecord.entriesElement.appendChild(createEntryElement());
-  }
-
-  clubElement.appendChild(athletesElement);
-  clubElement.appendChild(relaysElement);
-  clubsElement.appendChild(clubElement);
-
-  const serialized = new XMLSerializer().serializeToString(doc).trimStart();
-  const normalized = serialized.startsWith('<?xml')
-    ? serialized.replace(/^<\?xml[^>]*\?>/, '<?xml version="1.0" encoding="UTF-8"?>')
-    : `<?xml version="1.0" encoding="UTF-8"?>\n${serialized}`;
-  const xml = formatXmlWithIndentation(normalized, '  ');
-  return { xml, skippedDuringBuild };
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
 };
 
 const App = () => {
   const [isDragging, setIsDragging] = useState(false);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [lenexFile, setLenexFile] = useState<StoredFile | null>(null);
   const [detectedEncoding, setDetectedEncoding] = useState<string | null>(null);
+  const [encodingWarnings, setEncodingWarnings] = useState<string[]>([]);
+  const [lenexArchiveEntryName, setLenexArchiveEntryName] = useState<string | null>(null);
   const [lenexSourceXml, setLenexSourceXml] = useState<string | null>(null);
   const [lenexSummary, setLenexSummary] = useState<LenexMeetSummary | null>(null);
+  const [lenexClubs, setLenexClubs] = useState<LenexClub[]>([]);
+  const [uniPExportSource, setUniPExportSource] = useState<UniPExportSource>('entries');
+  const [uniPExportEncoding, setUniPExportEncoding] = useState<UniPEncoding>('iso-8859-1');
+  const [uniPExportMessage, setUniPExportMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [meetDefinitionError, setMeetDefinitionError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [isUniPDragging, setIsUniPDragging] = useState(false);
-  const [uniPEncoding, setUniPEncoding] = useState<UniPEncoding>('iso-8859-1');
-  const [uniPFileName, setUniPFileName] = useState<string | null>(null);
-  const [uniPClubName, setUniPClubName] = useState<string | null>(null);
-  const [uniPRows, setUniPRows] = useState<UniPRow[]>([]);
-  const [uniPErrorMessage, setUniPErrorMessage] = useState<string | null>(null);
+  const [uniPEncoding, setUniPEncoding] = useState<UniPEncodingSetting>('auto');
+  const [uniPDialect, setUniPDialect] = useState<UniPDialect>(defaultUniPDialect);
+  const [customUniPDialects, setCustomUniPDialects] = useState<UniPDialect[]>([]);
+  const [uniPDialectError, setUniPDialectError] = useState<string | null>(null);
+  const uniPDialectInputRef = useRef<HTMLInputElement | null>(null);
+  const [uniPColumnMapping, setUniPColumnMapping] = useState<UniPColumnMapping>({});
+  const [uniPClubFiles, setUniPClubFiles] = useState<UniPClubFile[]>([]);
+  const [isEditingUniPRows, setIsEditingUniPRows] = useState(false);
+  const [conversionOptions, setConversionOptions] = useState<ConversionOptions>(defaultConversionOptions);
   const [conversionWarning, setConversionWarning] = useState<string | null>(null);
   const [conversionError, setConversionError] = useState<string | null>(null);
-  const [uniPSourceFile, setUniPSourceFile] = useState<File | null>(null);
+  const [mergeIntoLenexClubs, setMergeIntoLenexClubs] = useState(false);
+  const [mergeReport, setMergeReport] = useState<LenexMergeReport | null>(null);
+  const [clubProfiles, setClubProfiles] = useState<ClubProfiles>(loadStoredClubProfiles);
   const uniPFileInputRef = useRef<HTMLInputElement | null>(null);
+  const nextUniPClubIdRef = useRef(1);
+  const [rosterFile, setRosterFile] = useState<StoredFile | null>(null);
+  const rosterFileInputRef = useRef<HTMLInputElement | null>(null);
+  const [customConversionTables, setCustomConversionTables] = useState<CourseConversionTable[]>([]);
+  const [conversionTableError, setConversionTableError] = useState<string | null>(null);
+  const conversionTableInputRef = useRef<HTMLInputElement | null>(null);
+  const [projects, setProjects] = useState<ConversionProject[]>([]);
+  // The project the current work is saved into. Created when the first file is loaded.
+  const [currentProject, setCurrentProject] = useState<Pick<ConversionProject, 'id' | 'name' | 'createdAt'> | null>(
+    null
+  );
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const projectImportInputRef = useRef<HTMLInputElement | null>(null);
 
   const onPickClick = () => {
     fileInputRef.current?.click();
@@ -541,33 +318,47 @@ const App = () => {
     uniPFileInputRef.current?.click();
   };
 
-  const handleFile = async (file: File) => {
+  const resetLenexFile = (meetFile: StoredFile | null) => {
     setErrorMessage(null);
     setLenexSummary(null);
+    setLenexClubs([]);
+    setUniPExportMessage(null);
     setLenexSourceXml(null);
-    setFileName(file.name);
+    setFileName(meetFile?.fileName ?? null);
+    setLenexFile(meetFile);
     setDetectedEncoding(null);
+    setEncodingWarnings([]);
+    setLenexArchiveEntryName(null);
     setMeetDefinitionError(null);
-    setUniPFileName(null);
-    setUniPClubName(null);
-    setUniPRows([]);
-    setUniPErrorMessage(null);
+    setUniPClubFiles([]);
     setConversionWarning(null);
     setConversionError(null);
-    setUniPSourceFile(null);
+    setMergeReport(null);
+  };
+
+  const loadLenexFile = (meetFile: StoredFile) => {
+    resetLenexFile(meetFile);
 
     try {
-      const { content, encoding } = await decodeXmlFileText(file);
+      const unpacked = unpackLenexBytes(meetFile.bytes);
+      const { content, encoding, warnings } = decodeXmlBytes(unpacked.bytes);
       const sanitizedContent = sanitizeLenexXmlForEntries(content);
       const parsed = parseLenexMeet(sanitizedContent);
       setLenexSourceXml(sanitizedContent);
+      setLenexArchiveEntryName(unpacked.archiveEntryName);
       setDetectedEncoding(encoding);
+      setEncodingWarnings(warnings);
       setLenexSummary(parsed);
+      setLenexClubs(parseLenexClubs(sanitizedContent));
     } catch (error) {
       setErrorMessage(error instanceof Error ? error.message : 'Could not parse Lenex file.');
     }
   };
 
+  const handleFile = async (file: File) => {
+    loadLenexFile({ fileName: file.name, bytes: await readFileBytes(file) });
+  };
+
   const onDrop: DragEventHandler<HTMLDivElement> = async (event) => {
     event.preventDefault();
     setIsDragging(false);
@@ -589,72 +380,325 @@ const App = () => {
     await handleFile(file);
   };
 
-  const parseUniPFile = async (file: File, encoding: UniPEncoding) => {
-    const content = await decodePlainTextFile(file, encoding);
-    return parseUniP(content);
+  const parseUniPFile = async (
+    file: File,
+    setting: UniPEncodingSetting,
+    dialect: UniPDialect,
+    columnMapping: UniPColumnMapping
+  ) => {
+    const { content, encoding, detection } = decodePlainTextWithSetting(await readFileBytes(file), setting);
+    return { parsed: parseUniP(content, dialect, columnMapping), encoding, detection };
+  };
+
+  // Files are parsed by the effect below, which also re-parses them when the parse settings change.
+  const createUniPClubFile = (file: File, rowEdits: Record<number, string[]> = {}): UniPClubFile => {
+    const id = nextUniPClubIdRef.current;
+    nextUniPClubIdRef.current += 1;
+
+    return {
+      id,
+      fileName: file.name,
+      sourceFile: file,
+      parsedEncoding: null,
+      encoding: null,
+      encodingDetection: null,
+      parsedDialect: null,
+      parsedColumnMapping: null,
+      clubName: null,
+      sourceRows: [],
+      rowEdits,
+      errorMessage: null
+    };
+  };
+
+  const handleUniPFiles = (files: File[]) => {
+    setConversionWarning(null);
+    setConversionError(null);
+    setUniPClubFiles((existing) => [...existing, ...files.map((file) => createUniPClubFile(file))]);
+  };
+
+  const onRemoveUniPClub = (clubId: number) => {
+    setConversionWarning(null);
+    setConversionError(null);
+    setUniPClubFiles((existing) => existing.filter((club) => club.id !== clubId));
   };
 
-  const handleUniPFile = async (file: File) => {
-    setUniPErrorMessage(null);
+  const onClearUniPClubs = () => {
     setConversionWarning(null);
     setConversionError(null);
-    setUniPFileName(file.name);
-    setUniPClubName(null);
-    setUniPRows([]);
-    setUniPSourceFile(file);
+    setUniPClubFiles([]);
+  };
+
+  const onUniPDrop: DragEventHandler<HTMLDivElement> = (event) => {
+    event.preventDefault();
+    setIsUniPDragging(false);
 
+    const files = Array.from(event.dataTransfer.files);
+    if (files.length === 0) {
+      return;
+    }
+
+    handleUniPFiles(files);
+  };
+
+  const onUniPSelected: ChangeEventHandler<HTMLInputElement> = (event) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) {
+      return;
+    }
+
+    handleUniPFiles(files);
+  };
+
+  useEffect(() => {
+    storeClubProfiles(clubProfiles);
+  }, [clubProfiles]);
+
+  const refreshProjects = async () => {
     try {
-      const parsed = await parseUniPFile(file, uniPEncoding);
-      setUniPClubName(parsed.clubName);
-      setUniPRows(parsed.rows);
+      setProjects(await listProjects());
     } catch (error) {
-      setUniPErrorMessage(error instanceof Error ? error.message : 'Could not parse UNI_p file.');
+      setProjectError(error instanceof Error ? error.message : 'Could not load the saved projects.');
     }
   };
 
-  const onUniPDrop: DragEventHandler<HTMLDivElement> = async (event) => {
-    event.preventDefault();
-    setIsUniPDragging(false);
+  useEffect(() => {
+    void refreshProjects();
+  }, []);
 
-    const file = event.dataTransfer.files.item(0);
-    if (!file) {
+  const buildCurrentProject = async (
+    meta: Pick<ConversionProject, 'id' | 'name' | 'createdAt'>
+  ): Promise<ConversionProject> => ({
+    ...meta,
+    updatedAt: new Date().toISOString(),
+    meetFile: lenexFile,
+    clubFiles: await Promise.all(
+      uniPClubFiles.map(async (club) => ({
+        fileName: club.fileName,
+        bytes: await readFileBytes(club.sourceFile),
+        rowEdits: club.rowEdits
+      }))
+    ),
+    rosterFile,
+    settings: { uniPEncoding, uniPDialect, uniPColumnMapping, conversionOptions, mergeIntoLenexClubs }
+  });
+
+  // Saves the work shortly after every change, starting a project with the first loaded file.
+  useEffect(() => {
+    if (!currentProject && !lenexFile && uniPClubFiles.length === 0) {
+      return;
+    }
+
+    // The project is started right away, so that a change during the first save cannot start a second one.
+    if (!currentProject) {
+      setCurrentProject({
+        id: createProjectId(),
+        name: lenexSummary?.name || lenexFile?.fileName || uniPClubFiles[0]?.fileName || 'Untitled project',
+        createdAt: new Date().toISOString()
+      });
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(await buildCurrentProject(currentProject));
+        await refreshProjects();
+      } catch (error) {
+        setProjectError(error instanceof Error ? error.message : 'Could not save the project.');
+      }
+    }, 500);
+
+    return () => clearTimeout(timer);
+  }, [
+    currentProject,
+    lenexFile,
+    lenexSummary,
+    uniPClubFiles,
+    rosterFile,
+    uniPEncoding,
+    uniPDialect,
+    uniPColumnMapping,
+    conversionOptions,
+    mergeIntoLenexClubs
+  ]);
+
+  const onNewProject = () => {
+    setProjectError(null);
+    setCurrentProject(null);
+    resetLenexFile(null);
+    setRosterFile(null);
+  };
+
+  const onOpenProject = (project: ConversionProject) => {
+    const { settings } = project;
+    setProjectError(null);
+
+    // Custom code tables and conversion tables are added to the choices again.
+    const dialect = uniPDialectOptions.find((item) => item.id === settings.uniPDialect.id) ?? settings.uniPDialect;
+    if (dialect === settings.uniPDialect) {
+      setCustomUniPDialects((current) => [...current.filter((item) => item.id !== dialect.id), dialect]);
+    }
+    const savedTable = settings.conversionOptions.courseConversionTable;
+    const table = courseConversionTableOptions.find((item) => item.id === savedTable.id) ?? savedTable;
+    if (table === savedTable) {
+      setCustomConversionTables((current) => [...current.filter((item) => item.id !== table.id), table]);
+    }
+
+    setUniPEncoding(settings.uniPEncoding);
+    setUniPDialect(dialect);
+    setUniPColumnMapping(settings.uniPColumnMapping);
+    setConversionOptions({ ...settings.conversionOptions, courseConversionTable: table });
+    setMergeIntoLenexClubs(settings.mergeIntoLenexClubs);
+
+    if (project.meetFile) {
+      loadLenexFile(project.meetFile);
+    } else {
+      resetLenexFile(null);
+    }
+    setUniPClubFiles(
+      project.clubFiles.map((file) =>
+        createUniPClubFile(new File([file.bytes as BlobPart], file.fileName), file.rowEdits)
+      )
+    );
+    setRosterFile(project.rosterFile);
+    setCurrentProject({ id: project.id, name: project.name, createdAt: project.createdAt });
+  };
+
+  const runProjectAction = async (action: () => Promise<void>, failure: string) => {
+    setProjectError(null);
+    try {
+      await action();
+    } catch (error) {
+      setProjectError(error instanceof Error ? error.message : failure);
+    }
+    await refreshProjects();
+  };
+
+  const onRenameProject = (project: ConversionProject, name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName || trimmedName === project.name) {
+      return;
+    }
+
+    if (currentProject?.id === project.id) {
+      setCurrentProject({ ...currentProject, name: trimmedName });
+    }
+    void runProjectAction(
+      () => saveProject({ ...project, name: trimmedName, updatedAt: new Date().toISOString() }),
+      'Could not rename the project.'
+    );
+  };
+
+  const onDuplicateProject = (project: ConversionProject) => {
+    void runProjectAction(() => saveProject(duplicateProject(project)), 'Could not duplicate the project.');
+  };
+
+  const onDeleteProject = (project: ConversionProject) => {
+    if (!window.confirm(`Delete the project "${project.name}"?`)) {
       return;
     }
 
-    await handleUniPFile(file);
+    // The open project is closed first, or the next change would save it again.
+    if (currentProject?.id === project.id) {
+      onNewProject();
+    }
+    void runProjectAction(() => deleteProject(project.id), 'Could not delete the project.');
+  };
+
+  const onExportProject = (project: ConversionProject) => {
+    downloadBlob(
+      new Blob([buildProjectBundle(project)], { type: 'application/json' }),
+      `${sanitizeFileName(project.name)}.json`
+    );
   };
 
-  const onUniPSelected: ChangeEventHandler<HTMLInputElement> = async (event) => {
+  const onProjectBundleSelected: ChangeEventHandler<HTMLInputElement> = async (event) => {
     const file = event.target.files?.[0];
+    event.target.value = '';
     if (!file) {
       return;
     }
 
-    await handleUniPFile(file);
+    await runProjectAction(async () => {
+      const project = parseProjectBundle(await file.text());
+      const isTaken = projects.some((item) => item.id === project.id);
+      await saveProject(isTaken ? { ...project, id: createProjectId() } : project);
+    }, 'Could not import the project.');
+  };
+
+  const onEditClubDetails = (clubName: string, update: (details: ClubDetails) => ClubDetails) => {
+    setClubProfiles((current) => ({
+      ...current,
+      [getClubProfileKey(clubName)]: update(resolveClubDetails(clubName, current))
+    }));
   };
 
   useEffect(() => {
-    if (!uniPSourceFile) {
+    const staleClubs = uniPClubFiles.filter(
+      (club) =>
+        club.parsedEncoding !== uniPEncoding ||
+        club.parsedDialect !== uniPDialect ||
+        club.parsedColumnMapping !== uniPColumnMapping
+    );
+    if (staleClubs.length === 0) {
       return;
     }
 
     let cancelled = false;
 
     const reload = async () => {
-      try {
-        const parsed = await parseUniPFile(uniPSourceFile, uniPEncoding);
-        if (!cancelled) {
-          setUniPErrorMessage(null);
-          setConversionWarning(null);
-          setConversionError(null);
-          setUniPClubName(parsed.clubName);
-          setUniPRows(parsed.rows);
-        }
-      } catch (error) {
-        if (!cancelled) {
-          setUniPErrorMessage(error instanceof Error ? error.message : 'Could not parse UNI_p file.');
+      const parsedById = new Map<
+        number,
+        Pick<UniPClubFile, 'clubName' | 'sourceRows' | 'errorMessage' | 'encoding' | 'encodingDetection'>
+      >();
+
+      for (const club of staleClubs) {
+        try {
+          const { parsed, encoding, detection } = await parseUniPFile(
+            club.sourceFile,
+            uniPEncoding,
+            uniPDialect,
+            uniPColumnMapping
+          );
+          parsedById.set(club.id, {
+            clubName: parsed.clubName,
+            sourceRows: parsed.rows,
+            errorMessage: null,
+            encoding,
+            encodingDetection: detection
+          });
+        } catch (error) {
+          parsedById.set(club.id, {
+            clubName: null,
+            sourceRows: [],
+            encoding: null,
+            encodingDetection: null,
+            errorMessage: error instanceof Error ? error.message : 'Could not parse UNI_p file.'
+          });
         }
       }
+
+      if (cancelled) {
+        return;
+      }
+
+      setConversionWarning(null);
+      setConversionError(null);
+      setUniPClubFiles((existing) =>
+        existing.map((club) => {
+          const parsed = parsedById.get(club.id);
+          return parsed
+            ? {
+                ...club,
+                ...parsed,
+                parsedEncoding: uniPEncoding,
+                parsedDialect: uniPDialect,
+                parsedColumnMapping: uniPColumnMapping
+              }
+            : club;
+        })
+      );
     };
 
     void reload();
@@ -662,34 +706,164 @@ const App = () => {
     return () => {
       cancelled = true;
     };
-  }, [uniPEncoding, uniPSourceFile]);
+  }, [uniPEncoding, uniPDialect, uniPColumnMapping, uniPClubFiles]);
+
+  const uniPClubs: UniPClub[] = useMemo(
+    () =>
+      uniPClubFiles.map((club) => ({
+        ...club,
+        rows: applyRowEdits(club.sourceRows, club.rowEdits, uniPDialect, uniPColumnMapping)
+      })),
+    [uniPClubFiles, uniPDialect, uniPColumnMapping]
+  );
 
-  const summaryText = useMemo(() => {
-    if (!lenexSummary) {
-      return 'Upload a Lenex meet definition (.lef or .xml) to view sessions and events.';
+  const onEditUniPFields = (clubId: number, row: UniPRow, changes: Record<number, string>) => {
+    setConversionWarning(null);
+    setConversionError(null);
+    setUniPClubFiles((existing) =>
+      existing.map((club) => {
+        if (club.id !== clubId) {
+          return club;
+        }
+
+        const fields = [...row.fields];
+        for (const [fieldIndex, value] of Object.entries(changes)) {
+          while (fields.length <= Number(fieldIndex)) {
+            fields.push('');
+          }
+          fields[Number(fieldIndex)] = value;
+        }
+
+        const rowEdits = { ...club.rowEdits };
+        const sourceRow = club.sourceRows.find((item) => item.lineNumber === row.lineNumber);
+        if (sourceRow && sourceRow.fields.every((field, index) => field === fields[index])) {
+          delete rowEdits[row.lineNumber];
+        } else {
+          rowEdits[row.lineNumber] = fields;
+        }
+
+        return { ...club, rowEdits };
+      })
+    );
+  };
+
+  const onEditUniPField = (clubId: number, row: UniPRow, fieldIndex: number, value: string) =>
+    onEditUniPFields(clubId, row, { [fieldIndex]: value });
+
+  // All legs are written to fields 16 and up, as these take precedence over a bound relay swimmer column.
+  const onEditRelaySwimmer = (clubId: number, row: UniPRow, legIndex: number, name: string) =>
+    onEditUniPFields(
+      clubId,
+      row,
+      Object.fromEntries(
+        Array.from({ length: row.relayCount }, (_, index) => [
+          uniPFieldCount + index,
+          index === legIndex ? name : row.relaySwimmers[index] ?? ''
+        ])
+      )
+    );
+
+  const relaySwimmerOptionsByClubId = useMemo(() => {
+    const optionsByClubId = new Map<number, Array<{ key: string; name: string; label: string }>>();
+
+    for (const club of uniPClubs) {
+      const optionsByKey = new Map<string, { key: string; name: string; label: string }>();
+      for (const row of club.rows) {
+        if (row.relayCount > 1 || !row.lastName) {
+          continue;
+        }
+
+        const key = getAthleteKey(row);
+        const name = [row.firstName, row.lastName].filter(Boolean).join(' ');
+        const birthYear = inferBirthYear(row);
+        optionsByKey.set(key, { key, name, label: `${name} (${row.gender}${birthYear ? `, ${birthYear}` : ''})` });
+      }
+
+      optionsByClubId.set(club.id, Array.from(optionsByKey.values()).sort((a, b) => a.label.localeCompare(b.label)));
     }
 
-    return `${lenexSummary.sessions.length} sessions · ${lenexSummary.totalEvents} events`;
-  }, [lenexSummary]);
+    return optionsByClubId;
+  }, [uniPClubs]);
 
-  const lenexEventsByNumber = useMemo(() => {
-    const eventsByNumber = new Map<string, LenexEvent[]>();
+  const onRevertUniPRow = (clubId: number, lineNumber: number) => {
+    setUniPClubFiles((existing) =>
+      existing.map((club) => {
+        if (club.id !== clubId) {
+          return club;
+        }
 
-    if (!lenexSummary) {
-      return eventsByNumber;
+        const rowEdits = { ...club.rowEdits };
+        delete rowEdits[lineNumber];
+        return { ...club, rowEdits };
+      })
+    );
+  };
+
+  const onDownloadCorrectedUniPClick = (club: UniPClub) => {
+    const content = formatUniPFile(club.clubName ?? '', club.rows);
+    // Written back in the encoding it was read with.
+    const encoding = club.encoding ?? 'iso-8859-1';
+    const bytes = encodePlainText(content, encoding);
+    const baseName = club.fileName.replace(/\.[^.]+$/, '') || 'club';
+    downloadBlob(
+      new Blob([bytes as BlobPart], { type: `text/plain;charset=${encoding}` }),
+      `${sanitizeFileName(baseName)}-corrected.txt`
+    );
+  };
+
+  const onRosterSelected: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
     }
 
-    for (const session of lenexSummary.sessions) {
-      for (const event of session.events) {
-        const existing = eventsByNumber.get(event.number) ?? [];
-        existing.push(event);
-        eventsByNumber.set(event.number, existing);
-      }
+    setRosterFile({ fileName: file.name, bytes: await readFileBytes(file) });
+  };
+
+  // Decoded with the UNI_p encoding setting, since rosters usually come from the same club system.
+  const roster = useMemo((): { parsed: AthleteRosterParseResult | null; errorMessage: string | null } => {
+    if (!rosterFile) {
+      return { parsed: null, errorMessage: null };
+    }
+
+    try {
+      const { content } = decodePlainTextWithSetting(rosterFile.bytes, uniPEncoding);
+      return { parsed: parseAthleteRoster(content), errorMessage: null };
+    } catch (error) {
+      return { parsed: null, errorMessage: error instanceof Error ? error.message : 'Could not parse roster file.' };
+    }
+  }, [rosterFile, uniPEncoding]);
+
+  const rosterAthletes = useMemo(() => roster.parsed?.athletes ?? [], [roster]);
+
+  const rosterMatchReport = useMemo(() => {
+    const matches = uniPClubs.flatMap((club) =>
+      matchAthleteRoster(club.rows, rosterAthletes).map((match) => ({ ...match, club }))
+    );
+
+    return {
+      matched: matches.filter((match) => match.candidates.length === 1).length,
+      unmatched: matches.filter((match) => match.candidates.length === 0),
+      ambiguous: matches.filter((match) => match.candidates.length > 1)
+    };
+  }, [uniPClubs, rosterAthletes]);
+
+  const summaryText = useMemo(() => {
+    if (!lenexSummary) {
+      return 'Upload a Lenex meet definition (.lef, .lxf or .xml) to view sessions and events.';
     }
 
-    return eventsByNumber;
+    return `${lenexSummary.sessions.length} sessions · ${lenexSummary.totalEvents} events`;
   }, [lenexSummary]);
 
+  const lenexEventsByNumber = useMemo(() => groupEventsByNumber(lenexSummary), [lenexSummary]);
+
+  const meetDefinitionIssues = useMemo(
+    () => (lenexSourceXml ? validateLenexMeetDefinition(lenexSourceXml) : []),
+    [lenexSourceXml]
+  );
+
   const nonRegistrableEventsCount = useMemo(() => {
     if (!lenexSummary) {
       return 0;
@@ -702,32 +876,161 @@ const App = () => {
     );
   }, [lenexSummary]);
 
+  const uniPRows = useMemo(() => uniPClubs.flatMap((club) => club.rows), [uniPClubs]);
+
+  const birthDatesByClubId = useMemo(
+    () => new Map(uniPClubs.map((club) => [club.id, getRosterBirthDates(club.rows, rosterAthletes)])),
+    [uniPClubs, rosterAthletes]
+  );
+
   const mergedIssuesByRowKey = useMemo(() => {
     const map = new Map<string, string[]>();
 
-    for (const row of uniPRows) {
-      const validationIssues = validateRowAgainstLenex(row, lenexEventsByNumber, Boolean(lenexSummary));
-      map.set(getRowKey(row), mergeIssues(row.issues, validationIssues));
+    for (const club of uniPClubs) {
+      const issuesByLineNumber = getClubRowIssues(
+        club.rows,
+        lenexEventsByNumber,
+        Boolean(lenexSummary),
+        conversionOptions,
+        birthDatesByClubId.get(club.id)
+      );
+      for (const row of club.rows) {
+        map.set(getRowKey(club.id, row), issuesByLineNumber.get(row.lineNumber) ?? []);
+      }
     }
 
     return map;
-  }, [uniPRows, lenexEventsByNumber, lenexSummary]);
+  }, [uniPClubs, lenexEventsByNumber, lenexSummary, conversionOptions, birthDatesByClubId]);
 
-  const exportableRows = useMemo(
-    () => uniPRows.filter((row) => (mergedIssuesByRowKey.get(getRowKey(row)) ?? []).length === 0),
-    [uniPRows, mergedIssuesByRowKey]
+  const hasTimeStandards = useMemo(
+    () =>
+      Boolean(lenexSummary?.sessions.some((session) => session.events.some((event) => event.timeStandards.length > 0))),
+    [lenexSummary]
   );
 
-  const skippedRowsWithIssues = uniPRows.length - exportableRows.length;
+  const hasEventEntryLimits = useMemo(
+    () =>
+      Boolean(
+        lenexSummary?.sessions.some((session) => session.events.some((event) => event.entryLimits.clubEvent !== null))
+      ),
+    [lenexSummary]
+  );
+
+  // The first check is the qualifying time when the event has one, otherwise the "not faster than" limit.
+  const timeStandardCheckByRowKey = useMemo(() => {
+    const map = new Map<string, TimeStandardCheck>();
+
+    for (const club of uniPClubs) {
+      for (const row of club.rows) {
+        const event = findMatchingLenexEvent(row, lenexEventsByNumber);
+        const birthDate = birthDatesByClubId.get(club.id)?.get(getAthleteKey(row)) ?? null;
+        const [check] = event
+          ? getTimeStandardChecks(row, event, birthDate, conversionOptions.courseConversionTable)
+          : [];
+        if (check) {
+          map.set(getRowKey(club.id, row), check);
+        }
+      }
+    }
+
+    return map;
+  }, [uniPClubs, lenexEventsByNumber, birthDatesByClubId, conversionOptions]);
+
+  const courseConversionTableOptions = useMemo(
+    () => [...courseConversionTables, ...customConversionTables],
+    [customConversionTables]
+  );
+
+  const onConversionTableSelected: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setConversionTableError(null);
+    try {
+      const table = parseCourseConversionTable(await file.text(), `custom-${file.name}`);
+      setCustomConversionTables((existing) => [...existing.filter((item) => item.id !== table.id), table]);
+      setConversionOptions((current) => ({ ...current, courseConversionTable: table }));
+    } catch (error) {
+      setConversionTableError(error instanceof Error ? error.message : 'Could not read conversion table.');
+    }
+  };
+
+  const uniPDialectOptions = useMemo(() => [...uniPDialects, ...customUniPDialects], [customUniPDialects]);
+
+  const onUniPDialectSelected: ChangeEventHandler<HTMLInputElement> = async (event) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setUniPDialectError(null);
+    try {
+      const dialect = parseUniPDialect(await file.text(), `custom-${file.name}`);
+      setCustomUniPDialects((existing) => [...existing.filter((item) => item.id !== dialect.id), dialect]);
+      setUniPDialect(dialect);
+    } catch (error) {
+      setUniPDialectError(error instanceof Error ? error.message : 'Could not read UNI_p profile.');
+    }
+  };
+
+  const getConvertedEntryTime = (row: UniPRow) =>
+    conversionOptions.convertEntryTimes && lenexSummary
+      ? convertEntryTime(row, lenexSummary.course, conversionOptions.courseConversionTable)
+      : null;
+
+  const formatTimeStandardCell = (check: TimeStandardCheck | undefined) => {
+    if (!check) {
+      return '';
+    }
+
+    return check.margin === null ? 'No time' : formatTimeDifference(check.margin);
+  };
+
+  const getMergedIssues = (clubId: number, row: UniPRow) => mergedIssuesByRowKey.get(getRowKey(clubId, row)) ?? [];
+
+  const exportableClubs = useMemo(
+    () =>
+      uniPClubs.map((club) => ({
+        club,
+        rows: club.rows.filter((row) => (mergedIssuesByRowKey.get(getRowKey(club.id, row)) ?? []).length === 0)
+      })),
+    [uniPClubs, mergedIssuesByRowKey]
+  );
+
+  const exportableRowsCount = exportableClubs.reduce((sum, item) => sum + item.rows.length, 0);
+
+  const skippedRowsWithIssues = uniPRows.length - exportableRowsCount;
 
   const uniPSummaryText = useMemo(() => {
     if (uniPRows.length === 0) {
-      return 'Upload a UNI_p file to inspect parsed registrations.';
+      return 'Upload one or more UNI_p files to inspect parsed registrations.';
     }
 
-    const validRows = uniPRows.filter((row) => (mergedIssuesByRowKey.get(getRowKey(row)) ?? []).length === 0).length;
-    return `${uniPRows.length} rows parsed · ${validRows} valid · ${uniPRows.length - validRows} with issues`;
-  }, [uniPRows, mergedIssuesByRowKey]);
+    const clubCount = uniPClubs.length;
+    return `${clubCount} file${clubCount === 1 ? '' : 's'} · ${uniPRows.length} rows parsed · ${exportableRowsCount} valid · ${
+      uniPRows.length - exportableRowsCount
+    } with issues`;
+  }, [uniPClubs, uniPRows, exportableRowsCount]);
+
+  const uniPClubSummary = useMemo(
+    () =>
+      exportableClubs.map(({ club, rows }) => ({
+        club,
+        id: club.id,
+        fileName: club.fileName,
+        clubName: club.clubName,
+        errorMessage: club.errorMessage,
+        total: club.rows.length,
+        valid: rows.length,
+        withIssues: club.rows.length - rows.length,
+        editedRows: Object.keys(club.rowEdits).length
+      })),
+    [exportableClubs]
+  );
 
   const uniPGenderSummary = useMemo(() => {
     const genders: Array<'F' | 'M' | 'X'> = ['F', 'M', 'X'];
@@ -757,11 +1060,21 @@ const App = () => {
     return [...summaryByGender, { gender: 'All', ...totals }];
   }, [uniPRows]);
 
-  const uniPHasIssues = useMemo(
-    () => uniPRows.some((row) => (mergedIssuesByRowKey.get(getRowKey(row)) ?? []).length > 0),
-    [uniPRows, mergedIssuesByRowKey]
+  const clubFees = useMemo(
+    () =>
+      lenexSummary && hasLenexFees(lenexSummary)
+        ? exportableClubs
+            .filter((item) => item.rows.length > 0)
+            .map((item) => ({
+              clubName: item.club.clubName ?? item.club.fileName,
+              summary: calculateClubFees(item.rows, lenexEventsByNumber, lenexSummary)
+            }))
+        : [],
+    [exportableClubs, lenexEventsByNumber, lenexSummary]
   );
 
+  const uniPHasIssues = uniPRows.length > exportableRowsCount || uniPClubs.some((club) => club.errorMessage !== null);
+
   const buildTimeLabel = useMemo(() => {
     const parsed = new Date(__APP_BUILD_DATE__);
     if (Number.isNaN(parsed.getTime())) {
@@ -778,44 +1091,88 @@ const App = () => {
     return `${yyyy}-${mm}-${dd} ${hh}:${min}:${ss}`;
   }, []);
 
-  const onDownloadEntriesClick = () => {
+  const getFeeFileBaseName = () => `${sanitizeFileName(lenexSummary?.name || 'meet')}-entry-fees`;
+
+  const onDownloadFeeCsvClick = () => {
+    downloadBlob(new Blob([buildFeeCsv(clubFees)], { type: 'text/csv;charset=utf-8' }), `${getFeeFileBaseName()}.csv`);
+  };
+
+  const onOpenFeeInvoiceClick = () => {
+    if (!lenexSummary) {
+      return;
+    }
+
+    openHtmlPage(buildFeeInvoiceHtml(lenexSummary, clubFees), `${getFeeFileBaseName()}.html`);
+  };
+
+  const onOpenEntryListClick = (layout: EntryListLayout) => {
+    if (!lenexSummary) {
+      return;
+    }
+
+    const html = buildEntryListHtml({
+      meet: lenexSummary,
+      clubs: exportableClubs
+        .filter((item) => item.rows.length > 0)
+        .map((item) => ({ clubName: item.club.clubName ?? item.club.fileName, rows: item.rows })),
+      eventsByNumber: lenexEventsByNumber,
+      options: conversionOptions,
+      layout
+    });
+    const suffix = layout === 'events' ? 'entry-list' : 'swimmer-schedule';
+    openHtmlPage(html, `${sanitizeFileName(lenexSummary.name || 'meet')}-${suffix}.html`);
+  };
+
+  const onDownloadEntriesClick = (format: 'lef' | 'lxf') => {
     setConversionError(null);
     setConversionWarning(null);
+    setMergeReport(null);
 
     if (!lenexSourceXml || !lenexSummary) {
       setConversionError('Upload a Lenex meet definition before exporting entries.');
       return;
     }
 
-    if (exportableRows.length === 0) {
+    if (exportableRowsCount === 0) {
       setConversionWarning('No valid UNI_p entries to export.');
       return;
     }
 
     try {
-      const { xml, skippedDuringBuild } = buildLenexEntriesXml({
+      const isMerging = mergeIntoLenexClubs && lenexClubs.length > 0;
+      const result = buildLenexEntriesXml({
         baseXml: lenexSourceXml,
-        clubName: uniPClubName ?? 'Unknown Club',
-        rows: exportableRows,
-        eventsByNumber: lenexEventsByNumber
+        clubs: exportableClubs
+          .filter((item) => item.rows.length > 0)
+          .map((item) => ({
+            clubName: item.club.clubName ?? 'Unknown Club',
+            rows: item.rows,
+            details: item.club.clubName ? resolveClubDetails(item.club.clubName, clubProfiles) : undefined
+          })),
+        eventsByNumber: lenexEventsByNumber,
+        options: conversionOptions,
+        roster: rosterAthletes,
+        merge: isMerging
       });
+      const { xml, skippedDuringBuild } = result;
+      setMergeReport(result.mergeReport);
 
       const totalSkipped = skippedRowsWithIssues + skippedDuringBuild;
       if (totalSkipped > 0) {
         setConversionWarning(`Skipped ${totalSkipped} entries with issues.`);
       }
 
-      const blob = new Blob([xml], { type: 'application/xml;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      const clubSegment = sanitizeFileName((uniPClubName ?? 'club').toLowerCase());
+      const clubSegment =
+        uniPClubs.length === 1 ? sanitizeFileName((uniPClubs[0].clubName ?? 'club').toLowerCase()) : 'entries';
       const meetSegment = sanitizeFileName((lenexSummary.name || 'meet').toLowerCase());
-      link.href = url;
-      link.download = `${meetSegment}-${clubSegment}.lef`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      const baseFileName = `${meetSegment}-${isMerging ? 'merged' : clubSegment}`;
+
+      if (format === 'lxf') {
+        const archive = createLxfArchive(`${baseFileName}.lef`, xml);
+        downloadBlob(new Blob([archive as BlobPart], { type: 'application/zip' }), `${baseFileName}.lxf`);
+      } else {
+        downloadBlob(new Blob([xml], { type: 'application/xml;charset=utf-8' }), `${baseFileName}.lef`);
+      }
     } catch (error) {
       setConversionError(error instanceof Error ? error.message : 'Could not generate Lenex entries file.');
     }
@@ -835,21 +1192,46 @@ const App = () => {
 
     try {
       const filteredXml = stripNonRegistrableEventsFromLenexXml(lenexSourceXml);
-      const blob = new Blob([filteredXml], { type: 'application/xml;charset=utf-8' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
       const meetSegment = sanitizeFileName((lenexSummary.name || 'meet').toLowerCase());
-      link.href = url;
-      link.download = `${meetSegment}-registration-events.lef`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+      downloadBlob(
+        new Blob([filteredXml], { type: 'application/xml;charset=utf-8' }),
+        `${meetSegment}-registration-events.lef`
+      );
     } catch (error) {
       setMeetDefinitionError(error instanceof Error ? error.message : 'Could not generate filtered Lenex meet file.');
     }
   };
 
+  const onDownloadUniPClick = (club: LenexClub) => {
+    setUniPExportMessage(null);
+
+    if (!lenexSummary) {
+      return;
+    }
+
+    const { content, rowCount, skippedSwims } = buildUniPFromLenexClub({
+      club,
+      meet: lenexSummary,
+      source: uniPExportSource,
+      dialect: uniPDialect
+    });
+
+    if (rowCount === 0) {
+      setUniPExportMessage(`${club.name} has no ${uniPExportSource} to export.`);
+      return;
+    }
+
+    if (skippedSwims > 0) {
+      setUniPExportMessage(`Skipped ${skippedSwims} ${uniPExportSource} for ${club.name} without a matching event.`);
+    }
+
+    const bytes = encodePlainText(content, uniPExportEncoding);
+    downloadBlob(
+      new Blob([bytes as BlobPart], { type: `text/plain;charset=${uniPExportEncoding}` }),
+      `${sanitizeFileName((club.name || 'club').toLowerCase())}.txt`
+    );
+  };
+
   return (
     <main className="app-shell">
       <section className="card">
@@ -886,14 +1268,112 @@ const App = () => {
           <p>
             <strong>Summary:</strong> {summaryText}
           </p>
+          {lenexArchiveEntryName && (
+            <p>
+              <strong>Archive entry:</strong> {lenexArchiveEntryName}
+            </p>
+          )}
           <p>
             <strong>Encoding:</strong> {detectedEncoding ?? 'N/A'}
           </p>
         </div>
 
+        {encodingWarnings.map((warning) => (
+          <p key={warning} className="warning">
+            {warning}
+          </p>
+        ))}
         {errorMessage && <p className="error">{errorMessage}</p>}
       </section>
 
+      <section className="card">
+        <h2>Projects</h2>
+        <p className="subtitle">
+          The meet file, club files, row edits and settings are saved in this browser as you work. Export a project to
+          move it to another computer.
+        </p>
+
+        <div className="button-row">
+          <button type="button" onClick={onNewProject} disabled={!currentProject}>
+            New project
+          </button>
+          <button type="button" onClick={() => projectImportInputRef.current?.click()}>
+            Import project (JSON)
+          </button>
+          <input
+            ref={projectImportInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={onProjectBundleSelected}
+            className="hidden-input"
+          />
+        </div>
+
+        <div className="file-summary">
+          <p>
+            <strong>Current project:</strong> {currentProject?.name ?? 'None, load a file to start one'}
+          </p>
+        </div>
+
+        {projectError && <p className="error">{projectError}</p>}
+
+        {projects.length > 0 && (
+          <div className="table-wrap summary-table">
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Meet file</th>
+                  <th>Club files</th>
+                  <th>Last saved</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map((project) => (
+                  <tr key={project.id} className={project.id === currentProject?.id ? 'edited-row' : ''}>
+                    <td>
+                      <input
+                        // Re-created when the name changes elsewhere, e.g. after an import.
+                        key={project.name}
+                        className="cell-input"
+                        size={24}
+                        aria-label={`Name of project ${project.name}`}
+                        defaultValue={project.name}
+                        onBlur={(event) => onRenameProject(project, event.target.value)}
+                      />
+                    </td>
+                    <td>{project.meetFile?.fileName ?? ''}</td>
+                    <td>{project.clubFiles.length}</td>
+                    <td>{project.updatedAt.replace('T', ' ').slice(0, 16)}</td>
+                    <td>
+                      <div className="button-row">
+                        <button
+                          type="button"
+                          onClick={() => onOpenProject(project)}
+                          disabled={project.id === currentProject?.id}
+                        >
+                          Open
+                        </button>
+                        <button type="button" onClick={() => onDuplicateProject(project)}>
+                          Duplicate
+                        </button>
+                        <button type="button" onClick={() => onExportProject(project)}>
+                          Export
+                        </button>
+                        <button type="button" onClick={() => onDeleteProject(project)}>
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
       {lenexSummary && (
         <>
           <section className="card">
@@ -907,13 +1387,49 @@ const App = () => {
             <p>
               <strong>Course:</strong> {lenexSummary.course}
             </p>
+            <p>
+              <strong>Age date:</strong>{' '}
+              {lenexSummary.ageDate
+                ? `${lenexSummary.ageDate.value} (${lenexSummary.ageDate.type})`
+                : 'Not given, ages are counted by the year of each session'}
+            </p>
+            <p>
+              <strong>Entry limits:</strong> {formatEntryLimits(lenexSummary.entryLimits) || 'None for the whole meet'}
+            </p>
+            {lenexSummary.fees.length > 0 && (
+              <p>
+                <strong>Fees:</strong> {formatFees(lenexSummary.fees)}
+              </p>
+            )}
+
+            {meetDefinitionIssues.length > 0 ? (
+              <div className="warning-banner">
+                <strong>
+                  The meet file has {meetDefinitionIssues.length} structural problem
+                  {meetDefinitionIssues.length === 1 ? '' : 's'}.
+                </strong>{' '}
+                UNI_p rows for the affected events may get misleading issues until the meet file is fixed.
+                <ul>
+                  {meetDefinitionIssues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              </div>
+            ) : (
+              <p className="small-text">Meet file check: no structural problems found.</p>
+            )}
 
             {lenexSummary.sessions.map((session) => (
               <article key={`${session.number}-${session.name}`} className="session-block">
                 <h3>
                   Session {session.number}: {session.name}
                 </h3>
-                <p className="small-text">Date: {session.date}</p>
+                <p className="small-text">
+                  Date: {session.date}
+                  {session.events[0]?.entryLimits.athleteSession &&
+                    ` · max ${session.events[0].entryLimits.athleteSession} individual entries per swimmer`}
+                  {session.fees.length > 0 && ` · fees: ${formatFees(session.fees)}`}
+                </p>
 
                 <div className="table-wrap">
                   <table>
@@ -926,6 +1442,8 @@ const App = () => {
                         <th>Relay</th>
                         <th>Distance</th>
                         <th>Gender</th>
+                        {hasLenexFees(lenexSummary) && <th>Fee</th>}
+                        {hasEventEntryLimits && <th>Max per club</th>}
                       </tr>
                     </thead>
                     <tbody>
@@ -938,6 +1456,10 @@ const App = () => {
                           <td>{event.relayCount}</td>
                           <td>{event.distance}</td>
                           <td>{event.gender}</td>
+                          {hasLenexFees(lenexSummary) && (
+                            <td>{event.fee ? `${formatFeeAmount(event.fee.value)} ${event.fee.currency}` : ''}</td>
+                          )}
+                          {hasEventEntryLimits && <td>{event.entryLimits.clubEvent ?? ''}</td>}
                         </tr>
                       ))}
                     </tbody>
@@ -962,6 +1484,78 @@ const App = () => {
             {meetDefinitionError && <p className="error">{meetDefinitionError}</p>}
           </section>
 
+          {lenexClubs.length > 0 && (
+            <section className="card">
+              <h2>Lenex → UNI_p export</h2>
+              <p className="subtitle">
+                This Lenex file contains registrations for {lenexClubs.length} club{lenexClubs.length === 1 ? '' : 's'}.
+                Download them as UNI_p files, one per club.
+              </p>
+
+              <div className="button-row">
+                <label className="encoding-row" htmlFor="unip-export-source-select">
+                  Source
+                  <select
+                    id="unip-export-source-select"
+                    value={uniPExportSource}
+                    onChange={(event) => setUniPExportSource(event.target.value as UniPExportSource)}
+                  >
+                    <option value="entries">Entries</option>
+                    <option value="results">Results</option>
+                  </select>
+                </label>
+
+                <label className="encoding-row" htmlFor="unip-export-encoding-select">
+                  Text encoding
+                  <select
+                    id="unip-export-encoding-select"
+                    value={uniPExportEncoding}
+                    onChange={(event) => setUniPExportEncoding(event.target.value as UniPEncoding)}
+                  >
+                    <option value="iso-8859-1">ISO-8859-1 (default)</option>
+                    <option value="windows-1252">Windows-1252</option>
+                    <option value="utf-8">UTF-8</option>
+                  </select>
+                </label>
+              </div>
+
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Club</th>
+                      <th>Athletes</th>
+                      <th>Relays</th>
+                      <th>{uniPExportSource === 'results' ? 'Results' : 'Entries'}</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lenexClubs.map((club, index) => (
+                      <tr key={`${index}-${club.name}`}>
+                        <td>{club.name}</td>
+                        <td>{club.athletes.length}</td>
+                        <td>{club.relays.length}</td>
+                        <td>
+                          {[...club.athletes, ...club.relays].reduce(
+                            (sum, swimmer) => sum + swimmer[uniPExportSource].length,
+                            0
+                          )}
+                        </td>
+                        <td>
+                          <button type="button" onClick={() => onDownloadUniPClick(club)}>
+                            Download UNI_p
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {uniPExportMessage && <p className="warning">{uniPExportMessage}</p>}
+            </section>
+          )}
+
           <section className="card">
             <h2>UNI_p Upload</h2>
             <p className="subtitle">Upload UNI_p club registration files to parse and verify fields before Lenex export.</p>
@@ -971,13 +1565,163 @@ const App = () => {
               <select
                 id="unip-encoding-select"
                 value={uniPEncoding}
-                onChange={(event) => setUniPEncoding(event.target.value as UniPEncoding)}
+                onChange={(event) => setUniPEncoding(event.target.value as UniPEncodingSetting)}
               >
-                <option value="iso-8859-1">ISO-8859-1 (default)</option>
+                <option value="auto">Detect automatically (default)</option>
+                <option value="iso-8859-1">ISO-8859-1</option>
+                <option value="windows-1252">Windows-1252</option>
                 <option value="utf-8">UTF-8</option>
               </select>
             </label>
 
+            <div className="button-row">
+              <label className="encoding-row" htmlFor="unip-dialect-select">
+                Code tables
+                <select
+                  id="unip-dialect-select"
+                  value={uniPDialect.id}
+                  onChange={(event) => {
+                    const dialect = uniPDialectOptions.find((item) => item.id === event.target.value);
+                    if (dialect) {
+                      setUniPDialect(dialect);
+                    }
+                  }}
+                >
+                  {uniPDialectOptions.map((dialect) => (
+                    <option key={dialect.id} value={dialect.id}>
+                      {dialect.id === defaultUniPDialect.id ? `${dialect.name} (default)` : dialect.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button type="button" onClick={() => uniPDialectInputRef.current?.click()}>
+                Load profile (JSON)
+              </button>
+              <input
+                ref={uniPDialectInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={onUniPDialectSelected}
+                className="hidden-input"
+              />
+            </div>
+            {uniPDialectError && <p className="error">{uniPDialectError}</p>}
+
+            <div className="button-row">
+              {unusedUniPFields.map((fieldNumber) => (
+                <label key={fieldNumber} className="encoding-row" htmlFor={`unip-column-${fieldNumber}-select`}>
+                  Field {fieldNumber}
+                  <select
+                    id={`unip-column-${fieldNumber}-select`}
+                    value={uniPColumnMapping[fieldNumber] ?? ''}
+                    onChange={(event) =>
+                      setUniPColumnMapping((current) => ({
+                        ...current,
+                        [fieldNumber]: (event.target.value as UniPColumnBinding) || undefined
+                      }))
+                    }
+                  >
+                    <option value="">Empty</option>
+                    {(Object.keys(columnBindingLabels) as UniPColumnBinding[]).map((binding) => (
+                      <option key={binding} value={binding}>
+                        {columnBindingLabels[binding]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <label className="encoding-row" htmlFor="relay-class-toggle">
+              <input
+                id="relay-class-toggle"
+                type="checkbox"
+                checked={conversionOptions.checkRelayAgeClasses}
+                onChange={(event) =>
+                  setConversionOptions((current) => ({ ...current, checkRelayAgeClasses: event.target.checked }))
+                }
+              />
+              Check relay classes against the meet's age groups
+            </label>
+
+            <div className="button-row">
+              Entry limits
+              {entryLimitFields.map(({ key, label }) => (
+                <label key={key} className="encoding-row" htmlFor={`entry-limit-${key}`}>
+                  {label}
+                  <input
+                    id={`entry-limit-${key}`}
+                    className="cell-input"
+                    type="number"
+                    min={1}
+                    size={3}
+                    placeholder={lenexSummary?.entryLimits[key] ? String(lenexSummary.entryLimits[key]) : 'meet'}
+                    value={conversionOptions.entryLimitOverrides[key] ?? ''}
+                    onChange={(event) =>
+                      setConversionOptions((current) => ({
+                        ...current,
+                        entryLimitOverrides: {
+                          ...current.entryLimitOverrides,
+                          [key]: parseEntryLimitInput(event.target.value)
+                        }
+                      }))
+                    }
+                  />
+                </label>
+              ))}
+            </div>
+
+            <div className="button-row">
+              <label className="encoding-row" htmlFor="convert-times-toggle">
+                <input
+                  id="convert-times-toggle"
+                  type="checkbox"
+                  checked={conversionOptions.convertEntryTimes}
+                  onChange={(event) =>
+                    setConversionOptions((current) => ({ ...current, convertEntryTimes: event.target.checked }))
+                  }
+                />
+                Convert entry times to the meet course{lenexSummary?.course ? ` (${lenexSummary.course})` : ''}
+              </label>
+              <label className="encoding-row" htmlFor="conversion-table-select">
+                using
+                <select
+                  id="conversion-table-select"
+                  value={conversionOptions.courseConversionTable.id}
+                  onChange={(event) => {
+                    const table = courseConversionTableOptions.find((item) => item.id === event.target.value);
+                    if (table) {
+                      setConversionOptions((current) => ({ ...current, courseConversionTable: table }));
+                    }
+                  }}
+                >
+                  {courseConversionTableOptions.map((table) => (
+                    <option key={table.id} value={table.id}>
+                      {table.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button type="button" onClick={() => conversionTableInputRef.current?.click()}>
+                Load table (JSON)
+              </button>
+              <input
+                ref={conversionTableInputRef}
+                type="file"
+                accept=".json,application/json"
+                onChange={onConversionTableSelected}
+                className="hidden-input"
+              />
+            </div>
+            {conversionOptions.convertEntryTimes &&
+              isBuiltInConversionTable(conversionOptions.courseConversionTable) && (
+                <p className="small-text">
+                  The built-in tables are rough estimates. Load your federation's published table for official entry
+                  times.
+                </p>
+              )}
+            {conversionTableError && <p className="error">{conversionTableError}</p>}
+
             <div
               className={`drop-zone ${isUniPDragging ? 'dragging' : ''}`}
               onDragOver={(event) => {
@@ -987,14 +1731,15 @@ const App = () => {
               onDragLeave={() => setIsUniPDragging(false)}
               onDrop={onUniPDrop}
             >
-              <p>Drag and drop your UNI_p file here</p>
+              <p>Drag and drop one or more UNI_p files here</p>
               <p className="small-text">or</p>
               <button type="button" onClick={onPickUniPClick}>
-                Choose file
+                Choose files
               </button>
               <input
                 ref={uniPFileInputRef}
                 type="file"
+                multiple
                 accept={acceptedUniPFileTypes}
                 onChange={onUniPSelected}
                 className="hidden-input"
@@ -1003,29 +1748,88 @@ const App = () => {
 
             <div className="file-summary">
               <p>
-                <strong>File:</strong> {uniPFileName ?? 'No file selected'}
-              </p>
-              <p>
-                <strong>Club:</strong> {uniPClubName ?? 'N/A'}
+                <strong>Files:</strong> {uniPClubs.length > 0 ? uniPClubs.length : 'No file selected'}
               </p>
               <p>
                 <strong>Summary:</strong> {uniPSummaryText}
               </p>
               <p>
-                <strong>Encoding:</strong> {uniPEncoding}
+                <strong>Encoding:</strong>{' '}
+                {uniPEncoding === 'auto' ? 'detected per file' : `${encodingLabels[uniPEncoding]} for all files`}
               </p>
             </div>
 
-            {uniPErrorMessage && <p className="error">{uniPErrorMessage}</p>}
             {conversionError && <p className="error">{conversionError}</p>}
             {conversionWarning && <p className="warning">{conversionWarning}</p>}
 
+            {uniPClubs.length > 0 && (
+              <div className="table-wrap summary-table">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>File</th>
+                      <th>Club</th>
+                      <th>Encoding</th>
+                      <th>Rows</th>
+                      <th>Valid</th>
+                      <th>With issues</th>
+                      <th>Edited</th>
+                      <th />
+                      <th>
+                        <button type="button" onClick={onClearUniPClubs}>
+                          Remove all
+                        </button>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {uniPClubSummary.map((item) => (
+                      <tr key={item.id}>
+                        <td>{item.fileName}</td>
+                        <td>{item.errorMessage ? <span className="error">{item.errorMessage}</span> : item.clubName ?? ''}</td>
+                        <td title={item.club.encodingDetection?.reason}>{formatEncodingCell(item.club)}</td>
+                        <td>{item.total}</td>
+                        <td>{item.valid}</td>
+                        <td className={item.withIssues > 0 ? 'issue-cell' : ''}>{item.withIssues}</td>
+                        <td>{item.editedRows}</td>
+                        <td>
+                          <button
+                            type="button"
+                            onClick={() => onDownloadCorrectedUniPClick(item.club)}
+                            disabled={item.errorMessage !== null}
+                          >
+                            Download UNI_p
+                          </button>
+                        </td>
+                        <td>
+                          <button type="button" onClick={() => onRemoveUniPClub(item.id)}>
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {uniPRows.length > 0 && (
               <>
+                <label className="encoding-row summary-table" htmlFor="unip-edit-toggle">
+                  <input
+                    id="unip-edit-toggle"
+                    type="checkbox"
+                    checked={isEditingUniPRows}
+                    onChange={(event) => setIsEditingUniPRows(event.target.checked)}
+                  />
+                  Edit rows
+                </label>
+
                 <div className="table-wrap">
                   <table>
                     <thead>
                       <tr>
+                        {uniPClubs.length > 1 && <th>Club</th>}
                         <th>Event</th>
                         <th>Relay</th>
                         <th>Dist</th>
@@ -1034,25 +1838,137 @@ const App = () => {
                         <th>Gender</th>
                         <th>Class</th>
                         <th>Time</th>
+                        {hasTimeStandards && <th>Limit</th>}
                         <th>Issues</th>
+                        {isEditingUniPRows && <th />}
                       </tr>
                     </thead>
                     <tbody>
-                      {uniPRows.map((row) => (
-                        <tr key={`${row.lineNumber}-${row.eventNumber ?? 'x'}-${row.lastName}-${row.firstName}`}>
-                          <td>{row.eventNumber ?? ''}</td>
-                          <td>{row.relayCount}</td>
-                          <td>{row.distance ?? ''}</td>
-                          <td>{row.stroke || row.strokeCode}</td>
-                          <td>{[row.firstName, row.lastName].filter(Boolean).join(' ') || row.lastName}</td>
-                          <td>{row.gender}</td>
-                          <td>{formatYearClassCell(row)}</td>
-                          <td>{row.qualificationTime ?? ''}</td>
-                          <td className={(mergedIssuesByRowKey.get(getRowKey(row)) ?? []).length > 0 ? 'issue-cell' : ''}>
-                            {(mergedIssuesByRowKey.get(getRowKey(row)) ?? []).join('; ')}
-                          </td>
-                        </tr>
-                      ))}
+                      {uniPClubs.flatMap((club) =>
+                        club.rows.map((row) => {
+                          const isEdited = Boolean(club.rowEdits[row.lineNumber]);
+                          const timeStandardCheck = timeStandardCheckByRowKey.get(getRowKey(club.id, row));
+                          const convertedTime = getConvertedEntryTime(row);
+                          const renderFieldInput = (fieldIndex: number, label: string, size: number) => (
+                            <input
+                              className="cell-input"
+                              aria-label={`${label}, line ${row.lineNumber}`}
+                              size={size}
+                              value={row.fields[fieldIndex]}
+                              onChange={(event) => onEditUniPField(club.id, row, fieldIndex, event.target.value)}
+                            />
+                          );
+
+                          return (
+                            <tr key={getRowKey(club.id, row)} className={isEdited ? 'edited-row' : ''}>
+                              {uniPClubs.length > 1 && <td>{club.clubName}</td>}
+                              <td>
+                                {isEditingUniPRows
+                                  ? renderFieldInput(editableUniPFields.eventNumber, 'Event number', 3)
+                                  : row.eventNumber ?? ''}
+                              </td>
+                              <td>{row.relayCount}</td>
+                              <td>{row.distance ?? ''}</td>
+                              <td>{row.stroke || row.strokeCode}</td>
+                              <td>
+                                {isEditingUniPRows && row.relayCount <= 1 && (
+                                  <>
+                                    {renderFieldInput(editableUniPFields.firstName, 'First name', 10)}
+                                    {renderFieldInput(editableUniPFields.lastName, 'Last name', 12)}
+                                  </>
+                                )}
+                                {isEditingUniPRows && row.relayCount > 1 && (
+                                  <>
+                                    {renderFieldInput(editableUniPFields.lastName, 'Relay team name', 12)}
+                                    <div className="relay-swimmers">
+                                      {Array.from({ length: row.relayCount }, (_, legIndex) => (
+                                        <select
+                                          key={legIndex}
+                                          aria-label={`Leg ${legIndex + 1}, line ${row.lineNumber}`}
+                                          value={row.relaySwimmers[legIndex] ?? ''}
+                                          onChange={(event) =>
+                                            onEditRelaySwimmer(club.id, row, legIndex, event.target.value)
+                                          }
+                                        >
+                                          <option value="">Leg {legIndex + 1}: unknown</option>
+                                          {row.relaySwimmers[legIndex] &&
+                                            !(relaySwimmerOptionsByClubId.get(club.id) ?? []).some(
+                                              (option) => option.name === row.relaySwimmers[legIndex]
+                                            ) && (
+                                              <option value={row.relaySwimmers[legIndex]}>
+                                                {row.relaySwimmers[legIndex]}
+                                              </option>
+                                            )}
+                                          {(relaySwimmerOptionsByClubId.get(club.id) ?? []).map((option) => (
+                                            <option key={option.key} value={option.name}>
+                                              {option.label}
+                                            </option>
+                                          ))}
+                                        </select>
+                                      ))}
+                                    </div>
+                                  </>
+                                )}
+                                {!isEditingUniPRows && (
+                                  <>
+                                    {[row.firstName, row.lastName].filter(Boolean).join(' ') || row.lastName}
+                                    {row.relaySwimmers.some(Boolean) && (
+                                      <div className="small-text">
+                                        {row.relaySwimmers.map((name) => name || '?').join(', ')}
+                                      </div>
+                                    )}
+                                  </>
+                                )}
+                              </td>
+                              <td>
+                                {isEditingUniPRows
+                                  ? renderFieldInput(editableUniPFields.genderAndAgeGroup, 'Gender and age group', 4)
+                                  : row.gender}
+                              </td>
+                              <td>
+                                {isEditingUniPRows
+                                  ? renderFieldInput(editableUniPFields.birthYearOrClass, 'Birth year or class', 8)
+                                  : formatYearClassCell(row)}
+                              </td>
+                              <td>
+                                {isEditingUniPRows
+                                  ? renderFieldInput(editableUniPFields.qualificationTime, 'Qualification time', 8)
+                                  : formatEntryTimeCell(row)}
+                                {!isEditingUniPRows && convertedTime && (
+                                  <div className="small-text">
+                                    → {formatSwimTime(convertedTime.hundredths)} {convertedTime.course} (swum {row.poolCourse})
+                                  </div>
+                                )}
+                              </td>
+                              {hasTimeStandards && (
+                                <td
+                                  className={timeStandardCheck?.passes === false ? 'issue-cell' : ''}
+                                  title={timeStandardCheck?.standard.listName}
+                                >
+                                  {formatTimeStandardCell(timeStandardCheck)}
+                                </td>
+                              )}
+                              <td className={getMergedIssues(club.id, row).length > 0 ? 'issue-cell' : ''}>
+                                {getMergedIssues(club.id, row).join('; ')}
+                                {row.warnings.length > 0 && (
+                                  <div className="small-text warning">{row.warnings.join('; ')}</div>
+                                )}
+                              </td>
+                              {isEditingUniPRows && (
+                                <td>
+                                  <button
+                                    type="button"
+                                    onClick={() => onRevertUniPRow(club.id, row.lineNumber)}
+                                    disabled={!isEdited}
+                                  >
+                                    Revert
+                                  </button>
+                                </td>
+                              )}
+                            </tr>
+                          );
+                        })
+                      )}
                     </tbody>
                   </table>
                 </div>
@@ -1079,19 +1995,286 @@ const App = () => {
                     </tbody>
                   </table>
                 </div>
+
+                {uniPClubs.some((club) => club.clubName) && (
+                  <>
+                    <h3>Club details</h3>
+                    <p className="small-text">
+                      Written into the CLUB of the Lenex download. The name comes from the UNI_p header; the details are
+                      remembered in this browser for the next file of the same club.
+                    </p>
+                    <div className="table-wrap summary-table">
+                      <table>
+                        <thead>
+                          <tr>
+                            <th>UNI_p header</th>
+                            {clubDetailFields.map((field) => (
+                              <th key={field.key}>{field.label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {Array.from(new Set(uniPClubs.flatMap((club) => (club.clubName ? [club.clubName] : [])))).map(
+                            (clubName) => {
+                              const details = resolveClubDetails(clubName, clubProfiles);
+                              const issues = validateClubDetails(details);
+                              return (
+                                <tr key={clubName}>
+                                  <td>
+                                    {clubName}
+                                    {issues.length > 0 && <div className="small-text warning">{issues.join('; ')}</div>}
+                                  </td>
+                                  {clubDetailFields.map((field) => (
+                                    <td key={field.key}>
+                                      <input
+                                        className="cell-input"
+                                        size={field.size}
+                                        aria-label={`${field.label} of ${clubName}`}
+                                        value={field.get(details)}
+                                        onChange={(event) =>
+                                          onEditClubDetails(clubName, (current) =>
+                                            field.set(current, event.target.value)
+                                          )
+                                        }
+                                      />
+                                    </td>
+                                  ))}
+                                </tr>
+                              );
+                            }
+                          )}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+
+                {clubFees.length > 0 && (
+                  <>
+                    <h3>Entry fees</h3>
+                    <p className="small-text">From the fees in the meet file, for the entries without issues.</p>
+                    {clubFees.map(({ clubName, summary }) => (
+                      <div key={clubName} className="table-wrap summary-table">
+                        <table>
+                          <thead>
+                            <tr>
+                              <th>{clubFees.length > 1 ? clubName : 'Swimmer'}</th>
+                              <th>Entries</th>
+                              <th>Entry fees</th>
+                              <th>Athlete fees</th>
+                              <th>Total ({summary.currency})</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {summary.swimmers.map((swimmer) => (
+                              <tr key={swimmer.name}>
+                                <td>{swimmer.name}</td>
+                                <td>{swimmer.entries}</td>
+                                <td>{formatFeeAmount(swimmer.entryFees)}</td>
+                                <td>{formatFeeAmount(swimmer.athleteFees)}</td>
+                                <td>{formatFeeAmount(swimmer.total)}</td>
+                              </tr>
+                            ))}
+                            {summary.lines.map((line) => (
+                              <tr key={line.label}>
+                                <td>
+                                  <em>{line.label}</em>
+                                </td>
+                                <td>{line.count}</td>
+                                <td colSpan={2} />
+                                <td>{formatFeeAmount(line.amount)}</td>
+                              </tr>
+                            ))}
+                            <tr>
+                              <td>
+                                <strong>Total</strong>
+                              </td>
+                              <td colSpan={3} />
+                              <td>
+                                <strong>{formatFeeAmount(summary.total)}</strong>
+                              </td>
+                            </tr>
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                    <div className="button-row">
+                      <button type="button" onClick={onDownloadFeeCsvClick}>
+                        Download fees (CSV)
+                      </button>
+                      <button type="button" onClick={onOpenFeeInvoiceClick}>
+                        Printable invoice
+                      </button>
+                    </div>
+                  </>
+                )}
               </>
             )}
 
           </section>
 
+          <section className="card">
+            <h2>Athlete roster</h2>
+            <p className="subtitle">
+              Optional CSV with name, gender, full birth date and licence number. Swimmers matched by name, gender and
+              birth year are exported with their real birth date and licence.
+            </p>
+
+            <div className="button-row">
+              <button type="button" onClick={() => rosterFileInputRef.current?.click()}>
+                Choose roster
+              </button>
+              <button type="button" onClick={() => setRosterFile(null)} disabled={!rosterFile}>
+                Remove roster
+              </button>
+              <input
+                ref={rosterFileInputRef}
+                type="file"
+                accept={acceptedRosterFileTypes}
+                onChange={onRosterSelected}
+                className="hidden-input"
+              />
+            </div>
+
+            <div className="file-summary">
+              <p>
+                <strong>File:</strong> {rosterFile?.fileName ?? 'No file selected'}
+              </p>
+              {roster.parsed && (
+                <p>
+                  <strong>Summary:</strong> {roster.parsed.athletes.length} athletes · {rosterMatchReport.matched} matched
+                  · {rosterMatchReport.unmatched.length} unmatched · {rosterMatchReport.ambiguous.length} ambiguous
+                </p>
+              )}
+            </div>
+
+            {roster.errorMessage && <p className="error">{roster.errorMessage}</p>}
+            {roster.parsed && roster.parsed.issues.length > 0 && (
+              <p className="warning">Skipped roster lines: {roster.parsed.issues.join('; ')}</p>
+            )}
+
+            {roster.parsed && rosterMatchReport.unmatched.length + rosterMatchReport.ambiguous.length > 0 && (
+              <div className="table-wrap summary-table">
+                <table>
+                  <thead>
+                    <tr>
+                      {uniPClubs.length > 1 && <th>Club</th>}
+                      <th>Name</th>
+                      <th>Gender</th>
+                      <th>Birth year</th>
+                      <th>Roster match</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...rosterMatchReport.unmatched, ...rosterMatchReport.ambiguous].map((match) => (
+                      <tr key={getRowKey(match.club.id, match.row)}>
+                        {uniPClubs.length > 1 && <td>{match.club.clubName ?? match.club.fileName}</td>}
+                        <td>{[match.row.firstName, match.row.lastName].filter(Boolean).join(' ')}</td>
+                        <td>{match.row.gender}</td>
+                        <td>{inferBirthYear(match.row) ?? ''}</td>
+                        <td className="issue-cell">
+                          {match.candidates.length === 0
+                            ? 'Not in roster'
+                            : `Ambiguous: roster lines ${match.candidates.map((athlete) => athlete.lineNumber).join(', ')}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
           <section className="card">
             <h2>Lenex download</h2>
-            {uniPRows.length > 0 && !uniPHasIssues && <p className="success-banner">UNI_p file passed all checks</p>}
-            {uniPHasIssues && <p className="warning-banner">Given UNI_p file has issues - please fix manually. Entries with issues will not be in the Lenex download.</p>}
+            {uniPRows.length > 0 && !uniPHasIssues && (
+              <p className="success-banner">{uniPClubs.length === 1 ? 'UNI_p file' : 'All UNI_p files'} passed all checks</p>
+            )}
+            {uniPHasIssues && <p className="warning-banner">Given UNI_p files have issues - please fix manually. Entries with issues will not be in the Lenex download.</p>}
+
+            {lenexClubs.length > 0 && (
+              <label className="encoding-row" htmlFor="merge-lenex-clubs-toggle">
+                <input
+                  id="merge-lenex-clubs-toggle"
+                  type="checkbox"
+                  checked={mergeIntoLenexClubs}
+                  onChange={(event) => setMergeIntoLenexClubs(event.target.checked)}
+                />
+                Merge into the {lenexClubs.length} club{lenexClubs.length === 1 ? '' : 's'} already in the Lenex file
+                instead of replacing them
+              </label>
+            )}
 
-            <button type="button" onClick={onDownloadEntriesClick} disabled={!lenexSourceXml || uniPRows.length === 0}>
-              Download Lenex entries
-            </button>
+            <div className="button-row">
+              <button
+                type="button"
+                onClick={() => onDownloadEntriesClick('lef')}
+                disabled={!lenexSourceXml || uniPRows.length === 0}
+              >
+                Download Lenex entries (.lef)
+              </button>
+              <button
+                type="button"
+                onClick={() => onDownloadEntriesClick('lxf')}
+                disabled={!lenexSourceXml || uniPRows.length === 0}
+              >
+                Download Lenex entries (.lxf)
+              </button>
+            </div>
+
+            <p className="small-text">
+              Printable lists of the entries in the download, with seed times, for the coach and the notice board.
+            </p>
+            <div className="button-row">
+              <button type="button" onClick={() => onOpenEntryListClick('events')} disabled={exportableRowsCount === 0}>
+                Entry list by session and event
+              </button>
+              <button
+                type="button"
+                onClick={() => onOpenEntryListClick('swimmers')}
+                disabled={exportableRowsCount === 0}
+              >
+                Schedule per swimmer
+              </button>
+            </div>
+
+            {mergeReport && (
+              <>
+                <p>
+                  <strong>Merge:</strong> {mergeReport.added.length} entries added · {mergeReport.changed.length} changed
+                  · {mergeReport.untouched.length} untouched
+                </p>
+                {mergeReport.added.length + mergeReport.changed.length > 0 && (
+                  <div className="table-wrap summary-table">
+                    <table>
+                      <thead>
+                        <tr>
+                          <th>Change</th>
+                          <th>Club</th>
+                          <th>Name</th>
+                          <th>Event</th>
+                          <th>Entry time</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          ...mergeReport.added.map((change) => ({ ...change, status: 'Added' })),
+                          ...mergeReport.changed.map((change) => ({ ...change, status: 'Changed' }))
+                        ].map((change) => (
+                          <tr key={`${change.status}-${change.club}-${change.name}-${change.event}`}>
+                            <td>{change.status}</td>
+                            <td>{change.club}</td>
+                            <td>{change.name}</td>
+                            <td>{change.event}</td>
+                            <td>{change.detail}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </>
+            )}
           </section>
 
         </>
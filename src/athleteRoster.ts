@@ -0,0 +1,188 @@
+import type { AthleteRosterParseResult, RosterAthlete, RosterMatch, UniPRow } from './types';
+import { detectUniPDelimiter, tokenizeUniPLine } from './unipParser';
+import { getAthleteKey, inferBirthYear, normalizeName } from './validation';
+
+// Accepted header names per column, compared in lower case.
+const rosterColumnNames = {
+  lastName: ['lastname', 'last name', 'surname', 'family name', 'etternavn'],
+  firstName: ['firstname', 'first name', 'given name', 'fornavn'],
+  name: ['name', 'full name', 'navn'],
+  gender: ['gender', 'sex', 'kjønn', 'kjonn'],
+  birthDate: ['birthdate', 'birth date', 'date of birth', 'dob', 'fødselsdato', 'fodselsdato', 'født'],
+  license: ['license', 'licence', 'license id', 'licence id', 'registration id', 'lisens', 'lisensnummer']
+};
+
+type RosterColumn = keyof typeof rosterColumnNames;
+
+const rosterGenderMap: Record<string, string> = {
+  m: 'M',
+  male: 'M',
+  mann: 'M',
+  gutt: 'M',
+  k: 'F',
+  f: 'F',
+  female: 'F',
+  kvinne: 'F',
+  jente: 'F',
+  x: 'X'
+};
+
+// Name, gender and birth date are the fewest columns a roster can have.
+const minimumRosterFields = 3;
+
+// Spreadsheets quote fields that contain the delimiter, as in "Hansen, Ola". UNI_p lines are read the same way.
+const splitRosterLine = (line: string, delimiter: string) => {
+  const { fields, error } = tokenizeUniPLine(line, delimiter);
+  return { fields: fields.map((field) => field.trim()), error };
+};
+
+// A single name column is often written "Last, First".
+const splitFullName = (name: string) => {
+  const [lastName, firstName = ''] = name.split(',').map((part) => part.trim());
+  return { lastName, firstName };
+};
+
+const findColumns = (headers: string[]): Partial<Record<RosterColumn, number>> => {
+  const columns: Partial<Record<RosterColumn, number>> = {};
+  const normalizedHeaders = headers.map((header) => header.toLowerCase().replace(/[_-]/g, ' ').replace(/\s+/g, ' '));
+
+  for (const [column, names] of Object.entries(rosterColumnNames) as Array<[RosterColumn, string[]]>) {
+    const index = normalizedHeaders.findIndex((header) => names.includes(header));
+    if (index >= 0) {
+      columns[column] = index;
+    }
+  }
+
+  return columns;
+};
+
+// Accepts YYYY-MM-DD, DD.MM.YYYY and DD/MM/YYYY and returns YYYY-MM-DD, or null for anything else.
+const parseBirthDate = (value: string): string | null => {
+  const isoMatch = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const dayFirstMatch = value.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/);
+  const [year, month, day] = isoMatch
+    ? [isoMatch[1], isoMatch[2], isoMatch[3]]
+    : dayFirstMatch
+      ? [dayFirstMatch[3], dayFirstMatch[2], dayFirstMatch[1]]
+      : [];
+  if (!year || !month || !day) {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCFullYear() !== Number(year) || date.getUTCMonth() !== Number(month) - 1) {
+    return null;
+  }
+
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+export const parseAthleteRoster = (content: string): AthleteRosterParseResult => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== '');
+  if (headerIndex < 0) {
+    throw new Error('The roster file is empty.');
+  }
+
+  const delimiter = detectUniPDelimiter(
+    lines.filter((line) => line.trim()),
+    minimumRosterFields
+  );
+  const columns = findColumns(splitRosterLine(lines[headerIndex], delimiter).fields);
+  const hasNameColumn = columns.lastName !== undefined || columns.name !== undefined;
+  if (!hasNameColumn || columns.gender === undefined || columns.birthDate === undefined) {
+    throw new Error('The roster file needs a header row with name, gender and birth date columns.');
+  }
+
+  const athletes: RosterAthlete[] = [];
+  const issues: string[] = [];
+
+  for (let index = headerIndex + 1; index < lines.length; index += 1) {
+    if (!lines[index].trim()) {
+      continue;
+    }
+
+    const lineNumber = index + 1;
+    const { fields, error } = splitRosterLine(lines[index], delimiter);
+    if (error) {
+      issues.push(`Line ${lineNumber}: ${error}`);
+      continue;
+    }
+    const getField = (column: RosterColumn) => {
+      const columnIndex = columns[column];
+      return columnIndex === undefined ? '' : fields[columnIndex] ?? '';
+    };
+
+    const { lastName, firstName } =
+      columns.lastName !== undefined
+        ? { lastName: getField('lastName'), firstName: getField('firstName') }
+        : splitFullName(getField('name'));
+    const gender = rosterGenderMap[getField('gender').toLowerCase()] ?? '';
+    const birthDate = parseBirthDate(getField('birthDate'));
+
+    if (!lastName) {
+      issues.push(`Line ${lineNumber}: name is missing`);
+      continue;
+    }
+    if (!gender) {
+      issues.push(`Line ${lineNumber}: unknown gender "${getField('gender')}"`);
+      continue;
+    }
+    if (!birthDate) {
+      issues.push(`Line ${lineNumber}: invalid birth date "${getField('birthDate')}"`);
+      continue;
+    }
+
+    athletes.push({ lineNumber, lastName, firstName, gender, birthDate, license: getField('license') });
+  }
+
+  return { athletes, issues };
+};
+
+const getNameVariants = (lastName: string, firstName: string) =>
+  [`${firstName} ${lastName}`, `${lastName} ${firstName}`].map(normalizeName);
+
+const findRosterCandidates = (row: UniPRow, roster: RosterAthlete[]): RosterAthlete[] => {
+  const rowNames = getNameVariants(row.lastName, row.firstName);
+  const birthYear = inferBirthYear(row);
+
+  return roster.filter(
+    (athlete) =>
+      athlete.gender === row.gender &&
+      athlete.birthDate.slice(0, 4) === birthYear &&
+      getNameVariants(athlete.lastName, athlete.firstName).some((name) => rowNames.includes(name))
+  );
+};
+
+// Matched by name (in either order), gender and birth year. Only a single candidate counts as a match.
+export const findRosterAthlete = (row: UniPRow, roster: RosterAthlete[]): RosterAthlete | null => {
+  const candidates = findRosterCandidates(row, roster);
+  return candidates.length === 1 ? candidates[0] : null;
+};
+
+// One match per swimmer with individual entries; relays have no athletes of their own.
+export const matchAthleteRoster = (rows: UniPRow[], roster: RosterAthlete[]): RosterMatch[] => {
+  const matchesByKey = new Map<string, RosterMatch>();
+
+  for (const row of rows) {
+    const athleteKey = getAthleteKey(row);
+    if (row.relayCount > 1 || !row.lastName || matchesByKey.has(athleteKey)) {
+      continue;
+    }
+
+    matchesByKey.set(athleteKey, { row, candidates: findRosterCandidates(row, roster) });
+  }
+
+  return Array.from(matchesByKey.values());
+};
+
+// Full birth dates of the swimmers with a single roster match, keyed by athlete key.
+export const getRosterBirthDates = (rows: UniPRow[], roster: RosterAthlete[]): Map<string, string> => {
+  const birthDates = new Map<string, string>();
+  for (const match of matchAthleteRoster(rows, roster)) {
+    if (match.candidates.length === 1) {
+      birthDates.set(getAthleteKey(match.row), match.candidates[0].birthDate);
+    }
+  }
+  return birthDates;
+};
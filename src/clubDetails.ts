@@ -0,0 +1,103 @@
+import type { ClubDetails, ClubProfiles } from './types';
+import { normalizeName } from './validation';
+
+const clubProfilesStorageKey = 'unip-to-lenex.club-profiles';
+
+export const getClubProfileKey = (clubName: string) => normalizeName(clubName);
+
+export const createClubDetails = (clubName: string): ClubDetails => ({
+  name: clubName,
+  shortName: '',
+  code: '',
+  nation: '',
+  region: '',
+  contact: { name: '', email: '', phone: '' }
+});
+
+// The UNI_p header gives the name, a remembered profile the rest.
+export const resolveClubDetails = (clubName: string, profiles: ClubProfiles): ClubDetails =>
+  profiles[getClubProfileKey(clubName)] ?? createClubDetails(clubName);
+
+export const validateClubDetails = (details: ClubDetails): string[] => {
+  const issues: string[] = [];
+  if (details.nation && !/^[A-Z]{3}$/.test(details.nation)) {
+    issues.push(`Nation "${details.nation}" is not a three-letter code such as NOR`);
+  }
+  if (details.contact.email && !/^[^\s@]+@[^\s@]+$/.test(details.contact.email)) {
+    issues.push(`Contact e-mail "${details.contact.email}" is not an e-mail address`);
+  }
+  return issues;
+};
+
+const readString = (value: unknown, field: string, clubName: string) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Field "${field}" of club "${clubName}" must be a string.`);
+  }
+  return value.trim();
+};
+
+// Profiles are keyed by the club name of the UNI_p header, e.g.
+// { "Bergen SK": { "code": "BSK", "nation": "NOR", "contact": { "name": "Kari Trener", "email": "kari@example.com" } } }
+export const parseClubProfiles = (json: string): ClubProfiles => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The club details file is not valid JSON.');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('The club details file needs an object with the details by club name.');
+  }
+
+  const profiles: ClubProfiles = {};
+  for (const [clubName, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!value || typeof value !== 'object') {
+      throw new Error(`The details of club "${clubName}" must be an object.`);
+    }
+
+    const candidate = value as Record<string, unknown>;
+    const contact = (candidate.contact ?? {}) as Record<string, unknown>;
+    const details: ClubDetails = {
+      name: readString(candidate.name, 'name', clubName),
+      shortName: readString(candidate.shortName, 'shortName', clubName),
+      code: readString(candidate.code, 'code', clubName),
+      nation: readString(candidate.nation, 'nation', clubName).toUpperCase(),
+      region: readString(candidate.region, 'region', clubName),
+      contact: {
+        name: readString(contact.name, 'contact.name', clubName),
+        email: readString(contact.email, 'contact.email', clubName),
+        phone: readString(contact.phone, 'contact.phone', clubName)
+      }
+    };
+
+    const issues = validateClubDetails(details);
+    if (issues.length > 0) {
+      throw new Error(`${issues[0]} (club "${clubName}").`);
+    }
+    profiles[getClubProfileKey(clubName)] = details;
+  }
+
+  return profiles;
+};
+
+// Browsers without storage (or with it disabled) just do not remember the profiles.
+export const loadStoredClubProfiles = (): ClubProfiles => {
+  try {
+    const stored = localStorage.getItem(clubProfilesStorageKey);
+    return stored ? (JSON.parse(stored) as ClubProfiles) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const storeClubProfiles = (profiles: ClubProfiles) => {
+  try {
+    localStorage.setItem(clubProfilesStorageKey, JSON.stringify(profiles));
+  } catch {
+    // Ignored, see loadStoredClubProfiles.
+  }
+};
@@ -0,0 +1,129 @@
+import type { CourseConversionTable, UniPRow } from './types';
+
+// The built-in tables are rough estimates, not tables published by a federation, and are named so. Published
+// tables can be loaded as JSON.
+export const courseConversionTables: CourseConversionTable[] = [
+  {
+    id: 'per-stroke-factor',
+    name: 'Rough estimate: per stroke factor',
+    // Backstroke gains the most from the extra turns in a 25 m pool.
+    method: 'factor',
+    values: {
+      FREE: { default: 1.02 },
+      BACK: { default: 1.04 },
+      BREAST: { default: 1.025 },
+      FLY: { default: 1.02 },
+      MEDLEY: { default: 1.03 }
+    }
+  },
+  {
+    id: 'seconds-per-50',
+    name: 'Rough estimate: seconds per 50 m',
+    method: 'secondsPer50',
+    values: {
+      FREE: { default: 0.5 },
+      BACK: { default: 0.8 },
+      BREAST: { default: 0.7 },
+      FLY: { default: 0.5 },
+      MEDLEY: { default: 0.6, 200: 0.65, 400: 0.65 }
+    }
+  }
+];
+
+export const defaultCourseConversionTable = courseConversionTables[0];
+
+export const isBuiltInConversionTable = (table: CourseConversionTable) =>
+  courseConversionTables.some((item) => item.id === table.id);
+
+const getConversionValue = (table: CourseConversionTable, stroke: string, distance: number | null) => {
+  const strokeValues = table.values[stroke];
+  if (!strokeValues) {
+    return null;
+  }
+
+  return (distance !== null ? strokeValues[String(distance)] : undefined) ?? strokeValues.default ?? null;
+};
+
+// Converts between SCM and LCM, or returns null for other courses and strokes the table does not cover.
+export const convertSwimTime = (
+  hundredths: number,
+  fromCourse: string,
+  toCourse: string,
+  stroke: string,
+  distance: number | null,
+  table: CourseConversionTable = defaultCourseConversionTable
+): number | null => {
+  if (fromCourse === toCourse) {
+    return hundredths;
+  }
+
+  const value = getConversionValue(table, stroke, distance);
+  const isShortToLong = fromCourse === 'SCM' && toCourse === 'LCM';
+  const isLongToShort = fromCourse === 'LCM' && toCourse === 'SCM';
+  if (value === null || (!isShortToLong && !isLongToShort)) {
+    return null;
+  }
+
+  if (table.method === 'factor') {
+    return Math.round(isShortToLong ? hundredths * value : hundredths / value);
+  }
+
+  if (distance === null) {
+    return null;
+  }
+
+  const difference = Math.round((distance / 50) * value * 100);
+  return isShortToLong ? hundredths + difference : hundredths - difference;
+};
+
+// The row's entry time converted to the target course, or null when it needs no or cannot get a conversion.
+// The target is usually the MEET course attribute, which some files write in lower case.
+export const convertEntryTime = (
+  row: UniPRow,
+  meetCourse: string,
+  table: CourseConversionTable
+): { hundredths: number; course: string } | null => {
+  const targetCourse = meetCourse.trim().toUpperCase();
+  if (row.entryTime === null || !row.poolCourse || !targetCourse || row.poolCourse === targetCourse) {
+    return null;
+  }
+
+  const hundredths = convertSwimTime(row.entryTime, row.poolCourse, targetCourse, row.stroke, row.distance, table);
+  return hundredths === null ? null : { hundredths, course: targetCourse };
+};
+
+const conversionMethods: Array<CourseConversionTable['method']> = ['factor', 'secondsPer50'];
+
+// Custom tables use the same shape as the built-in ones, e.g.
+// { "name": "Club table", "method": "factor", "values": { "FREE": { "default": 1.02, "50": 1.01 } } }
+export const parseCourseConversionTable = (json: string, id: string): CourseConversionTable => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The conversion table is not valid JSON.');
+  }
+
+  const candidate = parsed as Partial<CourseConversionTable> | null;
+  if (!candidate || typeof candidate !== 'object' || !candidate.values || typeof candidate.values !== 'object') {
+    throw new Error('The conversion table needs a "values" object with factors by stroke.');
+  }
+
+  const method = candidate.method ?? 'factor';
+  if (!conversionMethods.includes(method)) {
+    throw new Error(`Unknown conversion method "${method}". Supported: ${conversionMethods.join(', ')}.`);
+  }
+
+  const values: CourseConversionTable['values'] = {};
+  for (const [stroke, strokeValues] of Object.entries(candidate.values)) {
+    values[stroke.toUpperCase()] = {};
+    for (const [distance, value] of Object.entries(strokeValues ?? {})) {
+      if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid conversion value for ${stroke} ${distance}.`);
+      }
+      values[stroke.toUpperCase()][distance] = value;
+    }
+  }
+
+  return { id, name: typeof candidate.name === 'string' && candidate.name ? candidate.name : id, method, values };
+};
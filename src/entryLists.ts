@@ -0,0 +1,176 @@
+import { convertEntryTime } from './courseConversion';
+import { buildPrintPage, escapeHtml } from './printPage';
+import { formatSwimTime } from './swimTime';
+import type { ConversionOptions, LenexEvent, LenexMeetSummary, LenexSession, UniPRow } from './types';
+import { findMatchingLenexEvent, getAthleteKey, inferBirthYear, resolveRelaySwimmers } from './validation';
+
+export type EntryListLayout = 'events' | 'swimmers';
+
+type ListedClub = {
+  clubName: string;
+  rows: UniPRow[];
+};
+
+type ListedEntry = {
+  clubName: string;
+  row: UniPRow;
+  // The seed time as exported, so converted to the meet course when that option is on.
+  seedTime: number | null;
+};
+
+const describeLenexEvent = (event: LenexEvent) =>
+  event.name || `${event.relayCount > 1 ? `${event.relayCount}x` : ''}${event.distance} m ${event.stroke}`;
+
+const formatRowName = (row: UniPRow) => [row.firstName, row.lastName].filter(Boolean).join(' ');
+
+const formatSeedTime = (seedTime: number | null) => (seedTime === null ? 'NT' : formatSwimTime(seedTime));
+
+const getSeedTime = (row: UniPRow, meet: LenexMeetSummary, options: ConversionOptions) => {
+  const converted = options.convertEntryTimes
+    ? convertEntryTime(row, meet.course, options.courseConversionTable)
+    : null;
+  return converted?.hundredths ?? row.entryTime;
+};
+
+// Exported entries by event id, fastest seed time first and entries without a time last.
+const groupEntriesByEvent = (
+  clubs: ListedClub[],
+  eventsByNumber: Map<string, LenexEvent[]>,
+  meet: LenexMeetSummary,
+  options: ConversionOptions
+) => {
+  const entriesByEventId = new Map<string, ListedEntry[]>();
+  for (const club of clubs) {
+    for (const row of club.rows) {
+      const event = findMatchingLenexEvent(row, eventsByNumber);
+      if (event) {
+        const entries = entriesByEventId.get(event.eventId) ?? [];
+        entries.push({ clubName: club.clubName, row, seedTime: getSeedTime(row, meet, options) });
+        entriesByEventId.set(event.eventId, entries);
+      }
+    }
+  }
+
+  for (const entries of entriesByEventId.values()) {
+    entries.sort((a, b) => (a.seedTime ?? Infinity) - (b.seedTime ?? Infinity));
+  }
+  return entriesByEventId;
+};
+
+const describeSession = (session: LenexSession) =>
+  `Session ${session.number}${session.name ? `: ${session.name}` : ''}${session.date ? ` (${session.date})` : ''}`;
+
+const buildEventsLayout = (
+  meet: LenexMeetSummary,
+  entriesByEventId: Map<string, ListedEntry[]>,
+  showClub: boolean
+): string[] =>
+  meet.sessions.flatMap((session) => {
+    const eventBlocks = session.events.flatMap((event) => {
+      const entries = entriesByEventId.get(event.eventId) ?? [];
+      if (entries.length === 0) {
+        return [];
+      }
+
+      const rows = entries
+        .map(
+          ({ clubName, row, seedTime }) =>
+            `<tr><td>${escapeHtml(row.relayCount > 1 ? row.lastName : formatRowName(row))}</td>` +
+            `${showClub ? `<td>${escapeHtml(clubName)}</td>` : ''}` +
+            `<td>${escapeHtml(row.relayCount > 1 ? row.ageGroupCode : (inferBirthYear(row) ?? ''))}</td>` +
+            `<td>${formatSeedTime(seedTime)}</td></tr>`
+        )
+        .join('');
+      return [
+        `<h3>Event ${escapeHtml(event.number)}: ${escapeHtml(describeLenexEvent(event))}</h3>
+<table><thead><tr><th>Name</th>${showClub ? '<th>Club</th>' : ''}<th>Born / class</th><th>Seed time</th></tr></thead>
+<tbody>${rows}</tbody></table>`
+      ];
+    });
+
+    return eventBlocks.length === 0
+      ? []
+      : [`<section>\n<h2>${escapeHtml(describeSession(session))}</h2>\n${eventBlocks.join('\n')}\n</section>`];
+  });
+
+// Individual entries and the relays a swimmer is listed in, in session and event order.
+const buildSwimmersLayout = (
+  meet: LenexMeetSummary,
+  clubs: ListedClub[],
+  entriesByEventId: Map<string, ListedEntry[]>
+): string[] => {
+  const orderedEvents = meet.sessions.flatMap((session) => session.events.map((event) => ({ session, event })));
+
+  return clubs.flatMap((club) => {
+    const clubRows = new Set(club.rows);
+    const swimsByAthleteKey = new Map<string, { name: string; swims: string[] }>();
+    const addSwim = (athleteRow: UniPRow, swim: string) => {
+      const key = getAthleteKey(athleteRow);
+      const swimmer = swimsByAthleteKey.get(key) ?? { name: formatRowName(athleteRow), swims: [] };
+      swimmer.swims.push(swim);
+      swimsByAthleteKey.set(key, swimmer);
+    };
+
+    for (const { session, event } of orderedEvents) {
+      for (const { row, seedTime } of entriesByEventId.get(event.eventId) ?? []) {
+        if (!clubRows.has(row)) {
+          continue;
+        }
+
+        const formatSwim = (leg: string) =>
+          `<tr><td>${escapeHtml(session.date)}</td><td>${escapeHtml(session.name || session.number)}</td>` +
+          `<td>${escapeHtml(event.number)}</td><td>${escapeHtml(describeLenexEvent(event))}${leg}</td>` +
+          `<td>${formatSeedTime(seedTime)}</td></tr>`;
+        if (row.relayCount <= 1) {
+          addSwim(row, formatSwim(''));
+          continue;
+        }
+
+        for (const swimmer of resolveRelaySwimmers(row, club.rows)) {
+          if (swimmer.athleteRow) {
+            addSwim(swimmer.athleteRow, formatSwim(` (${escapeHtml(row.lastName)}, leg ${swimmer.position})`));
+          }
+        }
+      }
+    }
+
+    const swimmers = Array.from(swimsByAthleteKey.values()).sort((a, b) => a.name.localeCompare(b.name));
+    if (swimmers.length === 0) {
+      return [];
+    }
+
+    const swimmerBlocks = swimmers.map(
+      (swimmer) => `<h3>${escapeHtml(swimmer.name)}</h3>
+<table><thead><tr><th>Date</th><th>Session</th><th>Event</th><th>Name</th><th>Seed time</th></tr></thead>
+<tbody>${swimmer.swims.join('')}</tbody></table>`
+    );
+    return [`<section>\n<h2>${escapeHtml(club.clubName)}</h2>\n${swimmerBlocks.join('\n')}\n</section>`];
+  });
+};
+
+// Printable entry lists of the exported rows: by session and event, or one schedule per swimmer.
+export const buildEntryListHtml = ({
+  meet,
+  clubs,
+  eventsByNumber,
+  options,
+  layout
+}: {
+  meet: LenexMeetSummary;
+  clubs: ListedClub[];
+  eventsByNumber: Map<string, LenexEvent[]>;
+  options: ConversionOptions;
+  layout: EntryListLayout;
+}): string => {
+  const entriesByEventId = groupEntriesByEvent(clubs, eventsByNumber, meet, options);
+  const sections =
+    layout === 'events'
+      ? buildEventsLayout(meet, entriesByEventId, clubs.length > 1)
+      : buildSwimmersLayout(meet, clubs, entriesByEventId);
+  const title = `${meet.name}: ${layout === 'events' ? 'entries' : 'swimmer schedule'}`;
+
+  return buildPrintPage(title, [
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...(sections.length > 0 ? sections : ['<p>No entries.</p>'])
+  ]);
+};
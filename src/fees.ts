@@ -0,0 +1,158 @@
+import { buildPrintPage, escapeHtml } from './printPage';
+import type { ClubFeeSummary, FeeLine, LenexEvent, LenexFee, LenexMeetSummary, SwimmerFee, UniPRow } from './types';
+import { findMatchingLenexEvent, getAthleteKey } from './validation';
+
+export type ClubFees = {
+  clubName: string;
+  summary: ClubFeeSummary;
+};
+
+const findFee = (fees: LenexFee[], type: string) => fees.find((fee) => fee.type === type) ?? null;
+
+export const hasLenexFees = (meet: LenexMeetSummary) =>
+  meet.fees.length > 0 ||
+  meet.sessions.some((session) => session.fees.length > 0 || session.events.some((event) => event.fee !== null));
+
+// Event fees are charged per entry, ATHLETE and RELAY fees per swimmer and relay entry, CLUB fees once.
+// Fees in a SESSION apply per session the club or swimmer has entries in.
+export const calculateClubFees = (
+  rows: UniPRow[],
+  eventsByNumber: Map<string, LenexEvent[]>,
+  meet: LenexMeetSummary
+): ClubFeeSummary => {
+  const sessionFeesByNumber = new Map(meet.sessions.map((session) => [session.number, session.fees]));
+  const swimmersByKey = new Map<string, SwimmerFee>();
+  const swimmerSessions = new Set<string>();
+  const clubSessions = new Set<string>();
+  const lines: Record<string, FeeLine> = {};
+  const currencies: string[] = [];
+
+  const charge = (label: string, fee: LenexFee | null) => {
+    if (!fee) {
+      return 0;
+    }
+
+    lines[label] = lines[label] ?? { label, count: 0, amount: 0 };
+    lines[label].count += 1;
+    lines[label].amount += fee.value;
+    currencies.push(fee.currency);
+    return fee.value;
+  };
+
+  const chargeAthlete = (swimmer: SwimmerFee, fee: LenexFee | null) => {
+    const amount = charge('Athlete fees', fee);
+    swimmer.athleteFees += amount;
+    swimmer.total += amount;
+  };
+
+  charge('Club fee', findFee(meet.fees, 'CLUB'));
+
+  for (const row of rows) {
+    const event = findMatchingLenexEvent(row, eventsByNumber);
+    if (!event) {
+      continue;
+    }
+
+    const sessionFees = sessionFeesByNumber.get(event.sessionNumber) ?? [];
+    if (!clubSessions.has(event.sessionNumber)) {
+      clubSessions.add(event.sessionNumber);
+      charge('Club fee', findFee(sessionFees, 'CLUB'));
+    }
+
+    if (row.relayCount > 1) {
+      charge('Relay entries', event.fee);
+      charge('Relay fees', findFee(sessionFees, 'RELAY') ?? findFee(meet.fees, 'RELAY'));
+      continue;
+    }
+
+    const athleteKey = getAthleteKey(row);
+    let swimmer = swimmersByKey.get(athleteKey);
+    if (!swimmer) {
+      swimmer = {
+        name: [row.firstName, row.lastName].filter(Boolean).join(' '),
+        entries: 0,
+        entryFees: 0,
+        athleteFees: 0,
+        total: 0
+      };
+      swimmersByKey.set(athleteKey, swimmer);
+      chargeAthlete(swimmer, findFee(meet.fees, 'ATHLETE'));
+    }
+
+    const swimmerSessionKey = `${athleteKey}|${event.sessionNumber}`;
+    if (!swimmerSessions.has(swimmerSessionKey)) {
+      swimmerSessions.add(swimmerSessionKey);
+      chargeAthlete(swimmer, findFee(sessionFees, 'ATHLETE'));
+    }
+
+    const entryFee = charge('Individual entries', event.fee);
+    swimmer.entries += 1;
+    swimmer.entryFees += entryFee;
+    swimmer.total += entryFee;
+  }
+
+  const lineOrder = ['Individual entries', 'Relay entries', 'Athlete fees', 'Relay fees', 'Club fee'];
+  const feeLines = lineOrder.flatMap((label) => (lines[label] ? [lines[label]] : []));
+
+  return {
+    // Lenex allows a currency per FEE, but meets use a single one in practice.
+    currency: currencies[0] ?? '',
+    swimmers: Array.from(swimmersByKey.values()).sort((a, b) => a.name.localeCompare(b.name)),
+    lines: feeLines,
+    total: feeLines.reduce((sum, line) => sum + line.amount, 0)
+  };
+};
+
+export const formatFeeAmount = (cents: number) => (cents / 100).toFixed(2);
+
+const escapeCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const buildFeeCsv = (clubs: ClubFees[]): string => {
+  const rows = [['Club', 'Section', 'Description', 'Count', 'Amount', 'Currency']];
+
+  for (const { clubName, summary } of clubs) {
+    const currency = summary.currency;
+    for (const swimmer of summary.swimmers) {
+      rows.push([clubName, 'Swimmer', swimmer.name, String(swimmer.entries), formatFeeAmount(swimmer.total), currency]);
+    }
+    for (const line of summary.lines) {
+      rows.push([clubName, 'Fee type', line.label, String(line.count), formatFeeAmount(line.amount), currency]);
+    }
+    rows.push([clubName, 'Total', '', '', formatFeeAmount(summary.total), currency]);
+  }
+
+  return `${rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n')}\r\n`;
+};
+
+const buildInvoiceSection = (meet: LenexMeetSummary, { clubName, summary }: ClubFees) => {
+  const amount = (cents: number) => `${formatFeeAmount(cents)} ${escapeHtml(summary.currency)}`;
+  const swimmerRows = summary.swimmers
+    .map(
+      (swimmer) =>
+        `<tr><td>${escapeHtml(swimmer.name)}</td><td>${swimmer.entries}</td><td>${amount(swimmer.entryFees)}</td>` +
+        `<td>${amount(swimmer.athleteFees)}</td><td>${amount(swimmer.total)}</td></tr>`
+    )
+    .join('');
+  const lineRows = summary.lines
+    .map((line) => `<tr><td>${escapeHtml(line.label)}</td><td>${line.count}</td><td>${amount(line.amount)}</td></tr>`)
+    .join('');
+
+  return `<section>
+<h1>Entry fees: ${escapeHtml(clubName)}</h1>
+<p>${escapeHtml([meet.name, meet.city].filter(Boolean).join(', '))}</p>
+<h2>Per swimmer</h2>
+<table><thead><tr><th>Swimmer</th><th>Entries</th><th>Entry fees</th><th>Athlete fees</th><th>Total</th></tr></thead>
+<tbody>${swimmerRows}</tbody></table>
+<h2>Per fee type</h2>
+<table><thead><tr><th>Fee</th><th>Count</th><th>Amount</th></tr></thead>
+<tbody>${lineRows}</tbody>
+<tfoot><tr><th>Total</th><th></th><th>${amount(summary.total)}</th></tr></tfoot></table>
+</section>`;
+};
+
+// One invoice per club, each starting on a new page when printed.
+export const buildFeeInvoiceHtml = (meet: LenexMeetSummary, clubs: ClubFees[]): string =>
+  buildPrintPage(
+    `Entry fees: ${meet.name}`,
+    clubs.map((club) => buildInvoiceSection(meet, club))
+  );
@@ -0,0 +1,564 @@
+import { findRosterAthlete } from './athleteRoster';
+import { convertEntryTime } from './courseConversion';
+import { toLenexSwimTime } from './swimTime';
+import type {
+  ClubDetails,
+  ConversionOptions,
+  LenexEvent,
+  LenexMergeChange,
+  LenexMergeReport,
+  RosterAthlete,
+  UniPRow
+} from './types';
+import {
+  defaultConversionOptions,
+  findMatchingLenexEvent,
+  findRelayAgeGroup,
+  forbiddenRegistrationRounds,
+  getAgeOnAgeDate,
+  getAthleteKey,
+  getRelayAgeBounds,
+  inferBirthYear,
+  normalizeName,
+  resolveRelaySwimmers
+} from './validation';
+
+export type ClubEntries = {
+  clubName: string;
+  rows: UniPRow[];
+  // Written into the CLUB instead of just the name from the UNI_p header.
+  details?: ClubDetails;
+};
+
+type AthleteRecord = {
+  athleteId: string;
+  row: UniPRow;
+  name: string;
+  athleteElement: Element;
+  entriesElement: Element;
+  handicapElement: Element | null;
+};
+
+type HandicapAttributeName = 'free' | 'breast' | 'medley';
+
+const getHandicapFromClass = (value: string): { attribute: HandicapAttributeName; level: string } | null => {
+  const match = value.trim().toUpperCase().match(/^(SB|SM|S)(1[0-5]|[1-9])$/);
+  if (!match) {
+    return null;
+  }
+
+  const prefix = match[1];
+  const level = match[2];
+
+  if (prefix === 'SB') {
+    return { attribute: 'breast', level };
+  }
+
+  if (prefix === 'SM') {
+    return { attribute: 'medley', level };
+  }
+
+  return { attribute: 'free', level };
+};
+
+const toLenexDate = (value: string | null): string | null => {
+  if (!value) {
+    return null;
+  }
+
+  const compact = value.trim();
+  if (/^\d{8}$/.test(compact)) {
+    return `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+  }
+
+  return compact;
+};
+
+const setAttributes = (element: Element, attributes: Record<string, string | null | undefined>) => {
+  for (const [name, value] of Object.entries(attributes)) {
+    if (value !== undefined && value !== null && value !== '') {
+      element.setAttribute(name, value);
+    }
+  }
+};
+
+const applyAppConstructorMetadata = (doc: Document) => {
+  const lenexElement = doc.querySelector('LENEX');
+  if (!lenexElement) {
+    throw new Error('Could not find LENEX root element for export.');
+  }
+  lenexElement.setAttribute('version', '3.0');
+
+  let constructorElement = doc.querySelector('LENEX > CONSTRUCTOR');
+  if (!constructorElement) {
+    constructorElement = doc.createElement('CONSTRUCTOR');
+    lenexElement.insertBefore(constructorElement, lenexElement.firstChild);
+  }
+
+  // Reset existing constructor attributes from source files (for example registration).
+  Array.from(constructorElement.attributes).forEach((attribute) => constructorElement.removeAttribute(attribute.name));
+
+  setAttributes(constructorElement, {
+    name: 'UNI_p-to-Lenex',
+    version: '1'
+  });
+
+  constructorElement.replaceChildren();
+  const constructorContact = doc.createElement('CONTACT');
+  setAttributes(constructorContact, {
+    name: 'Håkon Strandenes',
+    email: 'haakon@hakostra.net'
+  });
+  constructorElement.appendChild(constructorContact);
+};
+
+const formatXmlWithIndentation = (xml: string, indentUnit = '  ') => {
+  const tokens = xml
+    .replace(/>\s+</g, '><')
+    .replace(/(>)(<)(\/*)/g, '$1\n$2$3')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  let indentLevel = 0;
+  const formatted: string[] = [];
+
+  for (const token of tokens) {
+    const isClosingTag = /^<\//.test(token);
+    const isSelfClosingTag = /\/>$/.test(token);
+    const isXmlDeclaration = /^<\?xml/.test(token);
+    const isComment = /^<!--/.test(token);
+    const isCData = /^<!\[CDATA\[/.test(token);
+    const isDoctype = /^<!DOCTYPE/.test(token);
+
+    if (isClosingTag) {
+      indentLevel = Math.max(indentLevel - 1, 0);
+    }
+
+    const shouldIndent = !isXmlDeclaration;
+    formatted.push(`${shouldIndent ? indentUnit.repeat(indentLevel) : ''}${token}`);
+
+    const isOpeningTag = /^<[^!?/][^>]*>$/.test(token);
+    if (isOpeningTag && !isSelfClosingTag && !isComment && !isCData && !isDoctype) {
+      indentLevel += 1;
+    }
+  }
+
+  return formatted.join('\n');
+};
+
+const getMergeAthleteKey = (lastName: string, firstName: string, gender: string, birthYear: string | null) =>
+  [normalizeName(lastName), normalizeName(firstName), gender, birthYear ?? ''].join('|');
+
+const getAthleteElementKey = (athleteElement: Element) =>
+  getMergeAthleteKey(
+    athleteElement.getAttribute('lastname') ?? '',
+    athleteElement.getAttribute('firstname') ?? '',
+    athleteElement.getAttribute('gender') ?? '',
+    athleteElement.getAttribute('birthdate')?.match(/^(\d{4})/)?.[1] ?? null
+  );
+
+// Our club matches an existing CLUB by its name, short name or code, or by the name and code in its details.
+const findExistingClubElement = (clubElements: Element[], clubName: string, details: ClubDetails | undefined) => {
+  const names = [clubName, details?.name ?? '', details?.code ?? ''].map(normalizeName).filter(Boolean);
+  return (
+    clubElements.find((clubElement) =>
+      ['name', 'shortname', 'code'].some((attribute) =>
+        names.includes(normalizeName(clubElement.getAttribute(attribute) ?? ''))
+      )
+    ) ?? null
+  );
+};
+
+const createClubElement = (doc: Document, clubName: string, details: ClubDetails | undefined) => {
+  const clubElement = doc.createElement('CLUB');
+  setAttributes(clubElement, {
+    name: details?.name || clubName,
+    shortname: details?.shortName,
+    code: details?.code,
+    nation: details?.nation,
+    region: details?.region
+  });
+
+  const contact = details?.contact;
+  if (contact && (contact.name || contact.email || contact.phone)) {
+    const contactElement = doc.createElement('CONTACT');
+    setAttributes(contactElement, { name: contact.name, email: contact.email, phone: contact.phone });
+    clubElement.appendChild(contactElement);
+  }
+
+  return clubElement;
+};
+
+const getOrCreateChild = (doc: Document, parent: Element, tagName: string) => {
+  let child = parent.querySelector(`:scope > ${tagName}`);
+  if (!child) {
+    child = doc.createElement(tagName);
+    parent.appendChild(child);
+  }
+  return child;
+};
+
+const getMaxNumericAttribute = (elements: Element[], attribute: string) =>
+  Math.max(0, ...elements.map((element) => Number(element.getAttribute(attribute))).filter(Number.isInteger));
+
+const getEntryOwnerName = (entryElement: Element) => {
+  const owner = entryElement.closest('ATHLETE, RELAY');
+  if (owner?.tagName === 'ATHLETE') {
+    return [owner.getAttribute('firstname'), owner.getAttribute('lastname')].filter(Boolean).join(' ');
+  }
+  return owner?.getAttribute('name') || `Relay ${owner?.getAttribute('number') ?? ''}`.trim();
+};
+
+export const sanitizeLenexXmlForEntries = (xml: string): string => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    throw new Error('Could not parse Lenex file.');
+  }
+
+  // Remove dynamic race data so exported entries are generated from clean meet definitions.
+  doc.querySelectorAll('EVENT > RESULTS').forEach((resultsElement) => resultsElement.remove());
+  doc.querySelectorAll('EVENT > HEATS').forEach((heatsElement) => heatsElement.remove());
+
+  const serialized = new XMLSerializer().serializeToString(doc).trimStart();
+  return serialized.startsWith('<?xml') ? serialized : `<?xml version="1.0" encoding="UTF-8"?>\n${serialized}`;
+};
+
+export const stripNonRegistrableEventsFromLenexXml = (xml: string): string => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    throw new Error('Could not parse Lenex meet file for filtering.');
+  }
+
+  doc.querySelectorAll('EVENT').forEach((eventElement) => {
+    const round = (eventElement.getAttribute('round') ?? '').trim().toUpperCase();
+    if (forbiddenRegistrationRounds.has(round)) {
+      eventElement.remove();
+    }
+  });
+
+  applyAppConstructorMetadata(doc);
+
+  const serialized = new XMLSerializer().serializeToString(doc).trimStart();
+  const normalized = serialized.startsWith('<?xml')
+    ? serialized.replace(/^<\?xml[^>]*\?>/, '<?xml version="1.0" encoding="UTF-8"?>')
+    : `<?xml version="1.0" encoding="UTF-8"?>\n${serialized}`;
+
+  return formatXmlWithIndentation(normalized, '  ');
+};
+
+export const buildLenexEntriesXml = ({
+  baseXml,
+  clubs,
+  eventsByNumber,
+  options = defaultConversionOptions,
+  roster = [],
+  merge = false
+}: {
+  baseXml: string;
+  clubs: ClubEntries[];
+  eventsByNumber: Map<string, LenexEvent[]>;
+  options?: ConversionOptions;
+  // Athletes with a single roster match get their real birth date and licence.
+  roster?: RosterAthlete[];
+  // Keeps the CLUBs of the base file and adds our athletes and entries to them.
+  merge?: boolean;
+}): { xml: string; skippedDuringBuild: number; mergeReport: LenexMergeReport | null } => {
+  const sanitizedBaseXml = sanitizeLenexXmlForEntries(baseXml);
+  const doc = new DOMParser().parseFromString(sanitizedBaseXml, 'application/xml');
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    throw new Error('Could not parse Lenex meet file for export.');
+  }
+
+  const meetElement = doc.querySelector('LENEX > MEETS > MEET');
+  if (!meetElement) {
+    throw new Error('Could not find MEET element for export.');
+  }
+
+  const meetCourse = meetElement.getAttribute('course') ?? '';
+
+  applyAppConstructorMetadata(doc);
+
+  let clubsElement = meetElement.querySelector(':scope > CLUBS');
+  if (!clubsElement) {
+    clubsElement = doc.createElement('CLUBS');
+    meetElement.appendChild(clubsElement);
+  }
+  if (!merge) {
+    clubsElement.replaceChildren();
+  }
+
+  const existingClubElements = Array.from(clubsElement.querySelectorAll(':scope > CLUB'));
+  const existingEntries = new Set(Array.from(clubsElement.querySelectorAll('ENTRY')));
+  const eventNumberById = new Map(
+    Array.from(eventsByNumber.values()).flatMap((events) => events.map((event) => [event.eventId, event.number]))
+  );
+  const report: LenexMergeReport = { added: [], changed: [], untouched: [] };
+
+  // Athlete ids must be unique within the whole file, relay numbers only within each club.
+  let nextAthleteId = getMaxNumericAttribute(Array.from(clubsElement.querySelectorAll('ATHLETE')), 'athleteid') + 1;
+  let skippedDuringBuild = 0;
+
+  for (const club of clubs) {
+    const clubName = club.clubName || 'Unknown Club';
+    const existingClubElement = findExistingClubElement(existingClubElements, clubName, club.details);
+    const clubElement = existingClubElement ?? createClubElement(doc, clubName, club.details);
+
+    const athletesElement = getOrCreateChild(doc, clubElement, 'ATHLETES');
+    const relaysElement = getOrCreateChild(doc, clubElement, 'RELAYS');
+    const existingAthletesByKey = new Map(
+      Array.from(athletesElement.querySelectorAll(':scope > ATHLETE')).map((element) => [
+        getAthleteElementKey(element),
+        element
+      ])
+    );
+    const existingRelayElements = Array.from(relaysElement.querySelectorAll(':scope > RELAY'));
+
+    const athleteByKey = new Map<string, AthleteRecord>();
+    let nextRelayNumber = getMaxNumericAttribute(existingRelayElements, 'number') + 1;
+
+    // An ENTRY for the same event that is already in the file is replaced, or kept when nothing differs.
+    const addEntry = (entriesElement: Element, entryElement: Element, name: string) => {
+      const eventId = entryElement.getAttribute('eventid') ?? '';
+      const change: LenexMergeChange = {
+        club: club.clubName,
+        name,
+        event: eventNumberById.get(eventId) ?? eventId,
+        detail: entryElement.getAttribute('entrytime') ?? 'no entry time'
+      };
+      const existingEntry = Array.from(entriesElement.querySelectorAll(':scope > ENTRY')).find(
+        (element) => element.getAttribute('eventid') === eventId
+      );
+      if (!existingEntry) {
+        entriesElement.appendChild(entryElement);
+        report.added.push(change);
+        return;
+      }
+
+      existingEntries.delete(existingEntry);
+      const oldTime = existingEntry.getAttribute('entrytime') ?? 'no entry time';
+      const isSame =
+        oldTime === change.detail &&
+        existingEntry.getAttribute('entrycourse') === entryElement.getAttribute('entrycourse');
+      if (isSame) {
+        report.untouched.push(change);
+        return;
+      }
+
+      existingEntry.replaceWith(entryElement);
+      report.changed.push({ ...change, detail: `${oldTime} → ${change.detail}` });
+    };
+
+    // Individual rows go first so that relay positions can refer to the athlete ids.
+    const orderedRows = [
+      ...club.rows.filter((row) => row.relayCount <= 1),
+      ...club.rows.filter((row) => row.relayCount > 1)
+    ];
+
+    for (const row of orderedRows) {
+      const lenexEvent = findMatchingLenexEvent(row, eventsByNumber);
+      if (!lenexEvent) {
+        skippedDuringBuild += 1;
+        continue;
+      }
+
+      const entryTime = row.entryTime === null ? null : toLenexSwimTime(row.entryTime);
+      const meetInfoDate = toLenexDate(row.qualificationDate);
+      // A converted entry time keeps the time as swum, and its course, in MEETINFO.
+      const convertedTime = options.convertEntryTimes
+        ? convertEntryTime(row, meetCourse, options.courseConversionTable)
+        : null;
+
+      const createEntryElement = () => {
+        const entryElement = doc.createElement('ENTRY');
+        setAttributes(entryElement, {
+          eventid: lenexEvent.eventId,
+          entrytime: convertedTime ? toLenexSwimTime(convertedTime.hundredths) : entryTime,
+          entrycourse: convertedTime?.course ?? row.poolCourse
+        });
+
+        const hasQualificationLocationData = Boolean(meetInfoDate || row.qualificationPlace || convertedTime);
+        if (hasQualificationLocationData) {
+          const meetInfoElement = doc.createElement('MEETINFO');
+          setAttributes(meetInfoElement, {
+            course: row.poolCourse,
+            date: meetInfoDate,
+            city: row.qualificationPlace,
+            qualificationtime: convertedTime ? entryTime : null
+          });
+          entryElement.appendChild(meetInfoElement);
+        }
+
+        return entryElement;
+      };
+
+      if (row.relayCount > 1) {
+        const relayPositions = resolveRelaySwimmers(row, club.rows).flatMap((swimmer) => {
+          const athleteRecord = swimmer.athleteRow ? athleteByKey.get(getAthleteKey(swimmer.athleteRow)) : undefined;
+          return athleteRecord ? [{ position: swimmer.position, athleteRecord }] : [];
+        });
+
+        // Real relay ages are only known when every leg is linked to an athlete with a birth year.
+        const ages = relayPositions.map((item) =>
+          getAgeOnAgeDate(
+            item.athleteRecord.row,
+            lenexEvent,
+            findRosterAthlete(item.athleteRecord.row, roster)?.birthDate ?? null
+          )
+        );
+        const knownAges = ages.filter((age): age is number => age !== null);
+        const allAgesKnown = relayPositions.length === row.relayCount && knownAges.length === row.relayCount;
+        const ageTotal = String(knownAges.reduce((sum, age) => sum + age, 0));
+        let ageAttributes = {
+          agemin: allAgesKnown ? String(Math.min(...knownAges)) : '-1',
+          agemax: allAgesKnown ? String(Math.max(...knownAges)) : '-1',
+          agetotalmin: allAgesKnown ? ageTotal : '-1',
+          agetotalmax: allAgesKnown ? ageTotal : '-1'
+        };
+
+        // In relay class mode the RELAY carries the bounds of the age group its class maps to.
+        const relayAgeGroup = options.checkRelayAgeClasses ? findRelayAgeGroup(row, lenexEvent) : null;
+        if (relayAgeGroup) {
+          const bounds = getRelayAgeBounds(relayAgeGroup);
+          ageAttributes = {
+            agemin: String(bounds.agemin),
+            agemax: String(bounds.agemax),
+            agetotalmin: String(bounds.agetotalmin),
+            agetotalmax: String(bounds.agetotalmax)
+          };
+        }
+
+        const entryElement = createEntryElement();
+        if (relayPositions.length > 0) {
+          const relayPositionsElement = doc.createElement('RELAYPOSITIONS');
+          for (const item of relayPositions) {
+            const relayPositionElement = doc.createElement('RELAYPOSITION');
+            setAttributes(relayPositionElement, {
+              number: String(item.position),
+              athleteid: item.athleteRecord.athleteId
+            });
+            relayPositionsElement.appendChild(relayPositionElement);
+          }
+          entryElement.appendChild(relayPositionsElement);
+        }
+
+        // A relay of the file with the same name, gender and ages is the same team, even when it is entered in
+        // other events. A relay with the same name and gender that is entered in the event is the team as well, as
+        // its ages may have been written before all swimmers were known.
+        const namedElements = existingRelayElements.filter(
+          (element) =>
+            normalizeName(element.getAttribute('name') ?? '') === normalizeName(row.lastName) &&
+            element.getAttribute('gender') === row.gender
+        );
+        const isEnteredInEvent = (element: Element) =>
+          Boolean(element.querySelector(`:scope > ENTRIES > ENTRY[eventid="${lenexEvent.eventId}"]`));
+        const sameTeamElements = namedElements.filter((element) =>
+          Object.entries(ageAttributes).every(([name, value]) => (element.getAttribute(name) ?? '-1') === value)
+        );
+        const existingRelayElement =
+          sameTeamElements.find(isEnteredInEvent) ?? namedElements.find(isEnteredInEvent) ?? sameTeamElements[0];
+        if (existingRelayElement) {
+          addEntry(getOrCreateChild(doc, existingRelayElement, 'ENTRIES'), entryElement, row.lastName);
+          continue;
+        }
+
+        const relayElement = doc.createElement('RELAY');
+        setAttributes(relayElement, {
+          number: String(nextRelayNumber),
+          name: row.lastName,
+          ...ageAttributes,
+          gender: row.gender
+        });
+        nextRelayNumber += 1;
+
+        const entriesElement = doc.createElement('ENTRIES');
+        relayElement.appendChild(entriesElement);
+        relaysElement.appendChild(relayElement);
+        addEntry(entriesElement, entryElement, row.lastName);
+        continue;
+      }
+
+      const birthYear = inferBirthYear(row);
+      const athleteKey = getAthleteKey(row);
+
+      const existingAthleteElement = existingAthletesByKey.get(
+        getMergeAthleteKey(row.lastName, row.firstName, row.gender, birthYear)
+      );
+      const name = [row.firstName, row.lastName].filter(Boolean).join(' ');
+      if (!athleteByKey.has(athleteKey) && existingAthleteElement) {
+        athleteByKey.set(athleteKey, {
+          athleteId: existingAthleteElement.getAttribute('athleteid') ?? '',
+          row,
+          name,
+          athleteElement: existingAthleteElement,
+          entriesElement: getOrCreateChild(doc, existingAthleteElement, 'ENTRIES'),
+          handicapElement: existingAthleteElement.querySelector(':scope > HANDICAP')
+        });
+      }
+
+      if (!athleteByKey.has(athleteKey)) {
+        const athleteId = String(nextAthleteId);
+        const rosterAthlete = findRosterAthlete(row, roster);
+        const athleteElement = doc.createElement('ATHLETE');
+        setAttributes(athleteElement, {
+          athleteid: athleteId,
+          birthdate: rosterAthlete?.birthDate ?? (birthYear ? `${birthYear}-01-01` : null),
+          firstname: row.firstName,
+          lastname: row.lastName,
+          gender: row.gender,
+          license: rosterAthlete?.license || row.license,
+          nation: row.nation
+        });
+        nextAthleteId += 1;
+
+        const entriesElement = doc.createElement('ENTRIES');
+        athleteElement.appendChild(entriesElement);
+        athletesElement.appendChild(athleteElement);
+
+        athleteByKey.set(athleteKey, { athleteId, row, name, athleteElement, entriesElement, handicapElement: null });
+      }
+
+      const athleteRecord = athleteByKey.get(athleteKey);
+      if (!athleteRecord) {
+        continue;
+      }
+
+      const handicap = getHandicapFromClass(row.birthYearOrClass);
+      if (handicap) {
+        let handicapElement = athleteRecord.handicapElement;
+        if (!handicapElement) {
+          handicapElement = doc.createElement('HANDICAP');
+          athleteRecord.athleteElement.appendChild(handicapElement);
+          athleteRecord.handicapElement = handicapElement;
+        }
+        handicapElement.setAttribute(handicap.attribute, handicap.level);
+      }
+
+      addEntry(athleteRecord.entriesElement, createEntryElement(), athleteRecord.name);
+    }
+
+    if (!existingClubElement) {
+      clubsElement.appendChild(clubElement);
+    }
+  }
+
+  for (const entryElement of existingEntries) {
+    const eventId = entryElement.getAttribute('eventid') ?? '';
+    report.untouched.push({
+      club: entryElement.closest('CLUB')?.getAttribute('name') ?? '',
+      name: getEntryOwnerName(entryElement),
+      event: eventNumberById.get(eventId) ?? eventId,
+      detail: entryElement.getAttribute('entrytime') ?? 'no entry time'
+    });
+  }
+
+  const serialized = new XMLSerializer().serializeToString(doc).trimStart();
+  const normalized = serialized.startsWith('<?xml')
+    ? serialized.replace(/^<\?xml[^>]*\?>/, '<?xml version="1.0" encoding="UTF-8"?>')
+    : `<?xml version="1.0" encoding="UTF-8"?>\n${serialized}`;
+  const xml = formatXmlWithIndentation(normalized, '  ');
+  return { xml, skippedDuringBuild, mergeReport: merge ? report : null };
+};
@@ -1,10 +1,96 @@
-import type { LenexEvent, LenexMeetSummary, LenexSession } from './types';
+import type {
+  EntryLimits,
+  LenexAgeDate,
+  LenexAthlete,
+  LenexClub,
+  LenexEvent,
+  LenexFee,
+  LenexMeetSummary,
+  LenexRelay,
+  LenexSession,
+  LenexSwim,
+  LenexTimeStandard
+} from './types';
+
+// Meet-wide data that is copied onto each event.
+type MeetParseContext = {
+  ageDate: LenexAgeDate | null;
+  timeStandardListsById: Map<string, Element>;
+  entryLimits: EntryLimits;
+};
 
 const getRequiredAttribute = (element: Element, attributeName: string): string => {
   return element.getAttribute(attributeName) ?? '';
 };
 
-const parseEvent = (eventElement: Element, sessionDate: string): LenexEvent => {
+const isSameSwimStyle = (swimStyle: Element, other: Element) =>
+  ['distance', 'relaycount', 'stroke'].every(
+    (attributeName) => (swimStyle.getAttribute(attributeName) ?? '') === (other.getAttribute(attributeName) ?? '')
+  );
+
+// Time standards of the lists referenced by TIMESTANDARDREFS, limited to the event's swim style.
+const parseTimeStandards = (
+  eventElement: Element,
+  swimStyle: Element | null,
+  timeStandardListsById: Map<string, Element>
+): LenexTimeStandard[] => {
+  if (!swimStyle) {
+    return [];
+  }
+
+  const refElements = Array.from(eventElement.querySelectorAll(':scope > TIMESTANDARDREFS > TIMESTANDARDREF'));
+  return refElements.flatMap((refElement) => {
+    const listElement = timeStandardListsById.get(getRequiredAttribute(refElement, 'timestandardlistid'));
+    if (!listElement) {
+      return [];
+    }
+
+    const ageGroupElement = listElement.querySelector(':scope > AGEGROUP');
+    const gender = getRequiredAttribute(listElement, 'gender').toUpperCase();
+    const standardElements = Array.from(listElement.querySelectorAll(':scope > TIMESTANDARDS > TIMESTANDARD'));
+
+    return standardElements.flatMap((standardElement) => {
+      const standardSwimStyle = standardElement.querySelector(':scope > SWIMSTYLE');
+      if (!standardSwimStyle || !isSameSwimStyle(swimStyle, standardSwimStyle)) {
+        return [];
+      }
+
+      return [
+        {
+          listName: getRequiredAttribute(listElement, 'name'),
+          // Compared with the UNI_p pool course, which is always upper case.
+          course: getRequiredAttribute(listElement, 'course').trim().toUpperCase(),
+          gender: gender === 'A' || gender === 'X' ? '' : gender,
+          type: (listElement.getAttribute('type') ?? 'DEFAULT').toUpperCase(),
+          agemin: ageGroupElement ? parseOptionalNumber(ageGroupElement, 'agemin') : -1,
+          agemax: ageGroupElement ? parseOptionalNumber(ageGroupElement, 'agemax') : -1,
+          swimTime: getRequiredAttribute(standardElement, 'swimtime')
+        }
+      ];
+    });
+  });
+};
+
+// A positive whole number, or null when the attribute is missing or not a limit.
+const parseEntryLimit = (element: Element, attributeName: string): number | null => {
+  const value = Number(element.getAttribute(attributeName) ?? '');
+  return Number.isInteger(value) && value > 0 ? value : null;
+};
+
+const parseFee = (feeElement: Element): LenexFee => ({
+  type: getRequiredAttribute(feeElement, 'type').toUpperCase(),
+  value: Number(getRequiredAttribute(feeElement, 'value')) || 0,
+  currency: getRequiredAttribute(feeElement, 'currency')
+});
+
+const parseFees = (parentElement: Element): LenexFee[] =>
+  Array.from(parentElement.querySelectorAll(':scope > FEES > FEE')).map(parseFee);
+
+const parseEvent = (
+  eventElement: Element,
+  session: { number: string; date: string },
+  context: MeetParseContext
+): LenexEvent => {
   const swimStyle = eventElement.querySelector('SWIMSTYLE');
   const ageGroupElements = Array.from(eventElement.querySelectorAll(':scope > AGEGROUPS > AGEGROUP'));
 
@@ -17,23 +103,55 @@ const parseEvent = (eventElement: Element, sessionDate: string): LenexEvent => {
     stroke: swimStyle ? getRequiredAttribute(swimStyle, 'stroke') : '',
     relayCount: Number(swimStyle ? getRequiredAttribute(swimStyle, 'relaycount') : 0),
     distance: Number(swimStyle ? getRequiredAttribute(swimStyle, 'distance') : 0),
-    sessionDate,
+    sessionNumber: session.number,
+    sessionDate: session.date,
+    ageDate: context.ageDate,
     ageGroups: ageGroupElements.map((ageGroupElement) => ({
       agemin: Number(getRequiredAttribute(ageGroupElement, 'agemin')),
       agemax: Number(getRequiredAttribute(ageGroupElement, 'agemax')),
-      name: getRequiredAttribute(ageGroupElement, 'name')
-    }))
+      name: getRequiredAttribute(ageGroupElement, 'name'),
+      calculate: (ageGroupElement.getAttribute('calculate') ?? 'SINGLE').toUpperCase()
+    })),
+    timeStandards: parseTimeStandards(eventElement, swimStyle, context.timeStandardListsById),
+    entryLimits: { ...context.entryLimits, clubEvent: parseEntryLimit(eventElement, 'maxentries') },
+    fee: Array.from(eventElement.querySelectorAll(':scope > FEE')).map(parseFee)[0] ?? null
   };
 };
 
-const parseSession = (sessionElement: Element): LenexSession => {
+const parseSession = (sessionElement: Element, context: MeetParseContext): LenexSession => {
   const eventElements = Array.from(sessionElement.querySelectorAll(':scope > EVENTS > EVENT'));
+  const session = {
+    number: getRequiredAttribute(sessionElement, 'number'),
+    date: getRequiredAttribute(sessionElement, 'date')
+  };
+  const sessionContext: MeetParseContext = {
+    ...context,
+    entryLimits: {
+      athleteMeet: context.entryLimits.athleteMeet,
+      athleteSession: parseEntryLimit(sessionElement, 'maxentriesathlete'),
+      relayEvent: parseEntryLimit(sessionElement, 'maxentriesrelay') ?? context.entryLimits.relayEvent,
+      clubEvent: null
+    }
+  };
 
   return {
-    number: getRequiredAttribute(sessionElement, 'number'),
+    number: session.number,
     name: getRequiredAttribute(sessionElement, 'name'),
-    date: getRequiredAttribute(sessionElement, 'date'),
-    events: eventElements.map((eventElement) => parseEvent(eventElement, getRequiredAttribute(sessionElement, 'date')))
+    date: session.date,
+    fees: parseFees(sessionElement),
+    events: eventElements.map((eventElement) => parseEvent(eventElement, session, sessionContext))
+  };
+};
+
+const parseAgeDate = (meetElement: Element): LenexAgeDate | null => {
+  const ageDateElement = meetElement.querySelector(':scope > AGEDATE');
+  if (!ageDateElement) {
+    return null;
+  }
+
+  return {
+    value: getRequiredAttribute(ageDateElement, 'value'),
+    type: (ageDateElement.getAttribute('type') ?? 'YEAR').toUpperCase()
   };
 };
 
@@ -49,8 +167,30 @@ export const parseLenexMeet = (xmlText: string): LenexMeetSummary => {
     throw new Error('Could not find a MEET element in this Lenex file.');
   }
 
+  const ageDate = parseAgeDate(meetElement);
+  // Time standard lists usually sit at the top level of the file, but some tools put them in the MEET.
+  const timeStandardListElements = Array.from(
+    doc.querySelectorAll('LENEX > TIMESTANDARDLISTS > TIMESTANDARDLIST, MEET > TIMESTANDARDLISTS > TIMESTANDARDLIST')
+  );
+  const timeStandardListsById = new Map(
+    timeStandardListElements.map((listElement) => [
+      getRequiredAttribute(listElement, 'timestandardlistid'),
+      listElement
+    ])
+  );
+
+  // The session limit only exists on sessions; a MEET limit on relays applies to each event.
+  const entryLimits: EntryLimits = {
+    athleteMeet: parseEntryLimit(meetElement, 'maxentriesathlete'),
+    athleteSession: null,
+    relayEvent: parseEntryLimit(meetElement, 'maxentriesrelay'),
+    clubEvent: null
+  };
+
   const sessionElements = Array.from(meetElement.querySelectorAll(':scope > SESSIONS > SESSION'));
-  const sessions = sessionElements.map(parseSession);
+  const sessions = sessionElements.map((sessionElement) =>
+    parseSession(sessionElement, { ageDate, timeStandardListsById, entryLimits })
+  );
 
   const totalEvents = sessions.reduce((sum, session) => sum + session.events.length, 0);
 
@@ -59,7 +199,81 @@ export const parseLenexMeet = (xmlText: string): LenexMeetSummary => {
     city: getRequiredAttribute(meetElement, 'city'),
     nation: getRequiredAttribute(meetElement, 'nation'),
     course: getRequiredAttribute(meetElement, 'course'),
+    ageDate,
+    entryLimits,
+    fees: parseFees(meetElement),
     sessions,
     totalEvents
   };
 };
+
+const parseOptionalNumber = (element: Element, attributeName: string): number => {
+  const value = element.getAttribute(attributeName);
+  return value === null || value.trim() === '' ? -1 : Number(value);
+};
+
+const parseSwims = (parentElement: Element, containerName: 'ENTRIES' | 'RESULTS'): LenexSwim[] => {
+  const isEntry = containerName === 'ENTRIES';
+  const swimElements = Array.from(
+    parentElement.querySelectorAll(`:scope > ${containerName} > ${isEntry ? 'ENTRY' : 'RESULT'}`)
+  );
+
+  return swimElements.map((swimElement) => {
+    const meetInfo = swimElement.querySelector(':scope > MEETINFO');
+    return {
+      eventId: getRequiredAttribute(swimElement, 'eventid'),
+      swimTime: swimElement.getAttribute(isEntry ? 'entrytime' : 'swimtime'),
+      course: swimElement.getAttribute('entrycourse') ?? meetInfo?.getAttribute('course') ?? null,
+      qualificationDate: meetInfo?.getAttribute('date') ?? null,
+      qualificationPlace: meetInfo?.getAttribute('city') ?? null
+    };
+  });
+};
+
+const parseAthlete = (athleteElement: Element): LenexAthlete => {
+  const handicapElement = athleteElement.querySelector(':scope > HANDICAP');
+
+  return {
+    athleteId: getRequiredAttribute(athleteElement, 'athleteid'),
+    firstName: getRequiredAttribute(athleteElement, 'firstname'),
+    lastName: getRequiredAttribute(athleteElement, 'lastname'),
+    gender: getRequiredAttribute(athleteElement, 'gender'),
+    birthDate: getRequiredAttribute(athleteElement, 'birthdate'),
+    handicap: handicapElement
+      ? {
+          free: handicapElement.getAttribute('free'),
+          breast: handicapElement.getAttribute('breast'),
+          medley: handicapElement.getAttribute('medley')
+        }
+      : null,
+    entries: parseSwims(athleteElement, 'ENTRIES'),
+    results: parseSwims(athleteElement, 'RESULTS')
+  };
+};
+
+const parseRelay = (relayElement: Element): LenexRelay => ({
+  number: getRequiredAttribute(relayElement, 'number'),
+  name: getRequiredAttribute(relayElement, 'name'),
+  gender: getRequiredAttribute(relayElement, 'gender'),
+  ageTotalMin: parseOptionalNumber(relayElement, 'agetotalmin'),
+  ageTotalMax: parseOptionalNumber(relayElement, 'agetotalmax'),
+  entries: parseSwims(relayElement, 'ENTRIES'),
+  results: parseSwims(relayElement, 'RESULTS')
+});
+
+export const parseLenexClubs = (xmlText: string): LenexClub[] => {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  const parserError = doc.querySelector('parsererror');
+  if (parserError) {
+    throw new Error('The uploaded file is not valid XML.');
+  }
+
+  const clubElements = Array.from(doc.querySelectorAll('LENEX > MEETS > MEET > CLUBS > CLUB'));
+  return clubElements.map((clubElement) => ({
+    name: getRequiredAttribute(clubElement, 'name'),
+    code: getRequiredAttribute(clubElement, 'code'),
+    nation: getRequiredAttribute(clubElement, 'nation'),
+    athletes: Array.from(clubElement.querySelectorAll(':scope > ATHLETES > ATHLETE')).map(parseAthlete),
+    relays: Array.from(clubElement.querySelectorAll(':scope > RELAYS > RELAY')).map(parseRelay)
+  }));
+};
@@ -0,0 +1,166 @@
+// Enumerations of the Lenex 3.0 specification. The strokes are also the values UNI_p stroke codes may map to.
+export const lenexStrokes = [
+  'APNEA',
+  'BACK',
+  'BIFINS',
+  'BREAST',
+  'DYNAMIC',
+  'DYNAMIC_BIFINS',
+  'DYNAMIC_NOFINS',
+  'FLY',
+  'FREE',
+  'IMMERSION',
+  'IMRELAY',
+  'MEDLEY',
+  'SURFACE',
+  'UNKNOWN'
+];
+const lenexStrokeSet = new Set(lenexStrokes);
+const lenexRounds = new Set(['TIM', 'FHT', 'FIN', 'SEM', 'QUA', 'PRE', 'SOP', 'SOS', 'SOQ', 'TIMETRIAL']);
+const lenexEventGenders = new Set(['A', 'M', 'F', 'X']);
+const lenexCourses = new Set([
+  'LCM',
+  'SCM',
+  'SCY',
+  'SCM16',
+  'SCM20',
+  'SCM33',
+  'SCY20',
+  'SCY27',
+  'SCY33',
+  'SCY36',
+  'OPEN'
+]);
+
+const isLenexDate = (value: string) => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return false;
+  }
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return date.getUTCFullYear() === Number(match[1]) && date.getUTCMonth() === Number(match[2]) - 1;
+};
+
+const isPositiveInteger = (value: string) => /^\d+$/.test(value) && Number(value) > 0;
+
+const describeSwimStyle = (swimStyle: Element | null) => {
+  if (!swimStyle) {
+    return 'no SWIMSTYLE';
+  }
+
+  const relayCount = Number(swimStyle.getAttribute('relaycount') ?? '1');
+  const distance = swimStyle.getAttribute('distance') ?? '?';
+  return `${relayCount > 1 ? `${relayCount}x` : ''}${distance} ${swimStyle.getAttribute('stroke') ?? '?'}`;
+};
+
+// Structural checks of a meet definition. The parser reads missing attributes as empty values, so a broken
+// file would otherwise only show up as confusing issues on every UNI_p row.
+export const validateLenexMeetDefinition = (xmlText: string): string[] => {
+  const doc = new DOMParser().parseFromString(xmlText, 'application/xml');
+  const meetElement = doc.querySelector('LENEX > MEETS > MEET');
+  if (doc.querySelector('parsererror') || !meetElement) {
+    return [];
+  }
+
+  const issues: string[] = [];
+
+  const checkRequired = (element: Element, location: string, attributeNames: string[]) => {
+    for (const attributeName of attributeNames) {
+      if (!(element.getAttribute(attributeName) ?? '').trim()) {
+        issues.push(`${location}: required attribute "${attributeName}" is missing`);
+      }
+    }
+  };
+
+  const checkEnum = (element: Element, location: string, attributeName: string, values: Set<string>) => {
+    const value = element.getAttribute(attributeName);
+    if (value && !values.has(value.toUpperCase())) {
+      issues.push(`${location}: ${attributeName} "${value}" is not one of ${Array.from(values).join(', ')}`);
+    }
+  };
+
+  const checkDate = (element: Element, location: string, attributeName: string) => {
+    const value = element.getAttribute(attributeName);
+    if (value && !isLenexDate(value)) {
+      issues.push(`${location}: ${attributeName} "${value}" is not a valid date (YYYY-MM-DD)`);
+    }
+  };
+
+  checkRequired(meetElement, 'MEET', ['name', 'city', 'nation']);
+  checkEnum(meetElement, 'MEET', 'course', lenexCourses);
+  checkDate(meetElement, 'MEET', 'deadline');
+  const ageDateElement = meetElement.querySelector(':scope > AGEDATE');
+  if (ageDateElement) {
+    checkRequired(ageDateElement, 'MEET > AGEDATE', ['value', 'type']);
+    checkDate(ageDateElement, 'MEET > AGEDATE', 'value');
+  }
+
+  const sessionElements = Array.from(meetElement.querySelectorAll(':scope > SESSIONS > SESSION'));
+  if (sessionElements.length === 0) {
+    issues.push('MEET: no SESSION found');
+  }
+
+  const eventLocationsById = new Map<string, string>();
+  const eventsByNumber = new Map<string, Array<{ location: string; swimStyle: string }>>();
+
+  sessionElements.forEach((sessionElement, sessionIndex) => {
+    const sessionLocation = `SESSION ${sessionElement.getAttribute('number') || `#${sessionIndex + 1}`}`;
+    checkRequired(sessionElement, sessionLocation, ['number', 'date']);
+    checkDate(sessionElement, sessionLocation, 'date');
+
+    const eventElements = Array.from(sessionElement.querySelectorAll(':scope > EVENTS > EVENT'));
+    eventElements.forEach((eventElement, eventIndex) => {
+      const eventId = eventElement.getAttribute('eventid') ?? '';
+      const number = eventElement.getAttribute('number') ?? '';
+      const location = `${sessionLocation} > EVENT ${number || `#${eventIndex + 1}`}`;
+      checkRequired(eventElement, location, ['eventid', 'number']);
+      checkEnum(eventElement, location, 'gender', lenexEventGenders);
+      checkEnum(eventElement, location, 'round', lenexRounds);
+
+      const swimStyle = eventElement.querySelector(':scope > SWIMSTYLE');
+      if (!swimStyle) {
+        issues.push(`${location}: SWIMSTYLE is missing`);
+      } else {
+        checkRequired(swimStyle, `${location} > SWIMSTYLE`, ['distance', 'relaycount', 'stroke']);
+        checkEnum(swimStyle, `${location} > SWIMSTYLE`, 'stroke', lenexStrokeSet);
+        for (const attributeName of ['distance', 'relaycount']) {
+          const value = swimStyle.getAttribute(attributeName);
+          if (value && !isPositiveInteger(value)) {
+            issues.push(`${location} > SWIMSTYLE: ${attributeName} "${value}" is not a positive whole number`);
+          }
+        }
+      }
+
+      if (eventId) {
+        const firstLocation = eventLocationsById.get(eventId);
+        if (firstLocation) {
+          issues.push(`${location}: eventid ${eventId} is also used by ${firstLocation}`);
+        } else {
+          eventLocationsById.set(eventId, location);
+        }
+      }
+
+      if (number) {
+        eventsByNumber.set(number, [
+          ...(eventsByNumber.get(number) ?? []),
+          { location, swimStyle: describeSwimStyle(swimStyle) }
+        ]);
+      }
+    });
+  });
+
+  // Rounds of the same event share the number, but they must be the same race.
+  for (const [number, events] of eventsByNumber) {
+    const swimStyles = new Set(events.map((event) => event.swimStyle));
+    if (swimStyles.size > 1) {
+      issues.push(
+        `Event number ${number} is used for different swim styles: ${events
+          .map((event) => `${event.swimStyle} (${event.location})`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  return issues;
+};
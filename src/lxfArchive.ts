@@ -0,0 +1,32 @@
+import { strToU8, unzipSync, zipSync } from 'fflate';
+
+const lenexEntryPattern = /\.(lef|xml)$/i;
+
+const isZipArchive = (bytes: Uint8Array) =>
+  bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+
+const isLenexEntryName = (name: string) => lenexEntryPattern.test(name) && !name.startsWith('__MACOSX/');
+
+// Zipped .lxf archives are unpacked to their inner .lef document; plain .lef/.xml files pass through unchanged.
+export const unpackLenexBytes = (bytes: Uint8Array): { bytes: Uint8Array; archiveEntryName: string | null } => {
+  if (!isZipArchive(bytes)) {
+    return { bytes, archiveEntryName: null };
+  }
+
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(bytes, { filter: (file) => isLenexEntryName(file.name) });
+  } catch {
+    throw new Error('The uploaded .lxf file is not a valid ZIP archive.');
+  }
+
+  const entryNames = Object.keys(entries);
+  const entryName = entryNames.find((name) => /\.lef$/i.test(name)) ?? entryNames[0];
+  if (!entryName) {
+    throw new Error('The uploaded .lxf archive does not contain a Lenex (.lef) document.');
+  }
+
+  return { bytes: entries[entryName], archiveEntryName: entryName };
+};
+
+export const createLxfArchive = (entryName: string, xml: string): Uint8Array => zipSync({ [entryName]: strToU8(xml) });
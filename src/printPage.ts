@@ -0,0 +1,26 @@
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const printPageStyles = `body { font-family: sans-serif; margin: 2rem; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; min-width: 50%; }
+th, td { border-bottom: 1px solid #ccc; padding: 0.25rem 0.75rem; text-align: left; }
+section + section { break-before: page; }
+h2, h3 { break-after: avoid; }
+tr { break-inside: avoid; }
+@media print { body { margin: 0; } }`;
+
+// A standalone page for printing. Each section starts on a new page.
+export const buildPrintPage = (title: string, sections: string[]): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+${printPageStyles}
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`;
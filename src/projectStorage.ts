@@ -0,0 +1,260 @@
+import { parseCourseConversionTable } from './courseConversion';
+import type {
+  ConversionOptions,
+  ConversionProject,
+  EntryLimits,
+  ProjectClubFile,
+  ProjectSettings,
+  StoredFile,
+  UniPColumnBinding,
+  UniPColumnMapping,
+  UniPEncodingSetting
+} from './types';
+import { defaultUniPDialect, parseUniPDialect } from './unipDialects';
+import { defaultConversionOptions } from './validation';
+
+const databaseName = 'unip-to-lenex';
+const projectStoreName = 'projects';
+const bundleFormat = 'unip-to-lenex-project';
+const bundleVersion = 1;
+
+export const createProjectId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const openProjectDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser cannot store projects.'));
+      return;
+    }
+
+    const request = indexedDB.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(projectStoreName, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error('Could not open the project storage.'));
+  });
+
+const runProjectTransaction = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const database = await openProjectDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = createRequest(database.transaction(projectStoreName, mode).objectStore(projectStoreName));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(new Error('Could not access the project storage.'));
+    });
+  } finally {
+    database.close();
+  }
+};
+
+// Most recently changed first.
+export const listProjects = async (): Promise<ConversionProject[]> => {
+  const projects = await runProjectTransaction<ConversionProject[]>('readonly', (store) => store.getAll());
+  return projects.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveProject = (project: ConversionProject): Promise<void> =>
+  runProjectTransaction<void>('readwrite', (store) => store.put(project));
+
+export const deleteProject = (id: string): Promise<void> =>
+  runProjectTransaction<void>('readwrite', (store) => store.delete(id));
+
+export const duplicateProject = (project: ConversionProject): ConversionProject => {
+  const now = new Date().toISOString();
+  return { ...project, id: createProjectId(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the stack.
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+
+const encodeStoredFile = <T extends StoredFile>(file: T) => ({ ...file, bytes: toBase64(file.bytes) });
+
+// File contents are base64 encoded, so the bundle is plain JSON.
+export const buildProjectBundle = (project: ConversionProject): string =>
+  JSON.stringify(
+    {
+      format: bundleFormat,
+      version: bundleVersion,
+      project: {
+        ...project,
+        meetFile: project.meetFile && encodeStoredFile(project.meetFile),
+        clubFiles: project.clubFiles.map(encodeStoredFile),
+        rosterFile: project.rosterFile && encodeStoredFile(project.rosterFile)
+      }
+    },
+    null,
+    2
+  );
+
+const decodeStoredFile = <T extends StoredFile>(value: unknown, description: string): T => {
+  const file = value as { fileName?: unknown; bytes?: unknown } | null;
+  if (!file || typeof file.fileName !== 'string' || typeof file.bytes !== 'string') {
+    throw new Error(`The ${description} in the project bundle is incomplete.`);
+  }
+
+  try {
+    return { ...(file as object), fileName: file.fileName, bytes: fromBase64(file.bytes) } as T;
+  } catch {
+    throw new Error(`The ${description} in the project bundle is not valid base64.`);
+  }
+};
+
+const uniPEncodingSettings: UniPEncodingSetting[] = ['auto', 'iso-8859-1', 'windows-1252', 'utf-8'];
+const uniPColumnBindings: UniPColumnBinding[] = ['license', 'nation', 'relaySwimmers'];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFieldNumber = (value: string) => /^\d+$/.test(value) && Number(value) > 0;
+
+const parseRowEdits = (value: unknown, fileName: string): Record<number, string[]> => {
+  if (value === undefined) {
+    return {};
+  }
+
+  const isValid =
+    isPlainObject(value) &&
+    Object.entries(value).every(
+      ([rowIndex, fields]) =>
+        /^\d+$/.test(rowIndex) && Array.isArray(fields) && fields.every((field) => typeof field === 'string')
+    );
+  if (!isValid) {
+    throw new Error(`The row edits of ${fileName} in the project bundle must be lists of fields by row.`);
+  }
+  return value as Record<number, string[]>;
+};
+
+const parseColumnMapping = (value: unknown): UniPColumnMapping => {
+  const isValid =
+    isPlainObject(value) &&
+    Object.entries(value).every(
+      ([field, binding]) => isFieldNumber(field) && uniPColumnBindings.includes(binding as UniPColumnBinding)
+    );
+  if (!isValid) {
+    throw new Error('The UNI_p column mapping in the project bundle is invalid.');
+  }
+  return value as UniPColumnMapping;
+};
+
+const parseConversionOptions = (value: unknown): ConversionOptions => {
+  if (!isPlainObject(value)) {
+    throw new Error('The conversion options in the project bundle must be an object.');
+  }
+
+  // Both switches are off unless set.
+  const { checkRelayAgeClasses, convertEntryTimes, courseConversionTable, entryLimitOverrides } = value;
+  if ([checkRelayAgeClasses, convertEntryTimes].some((flag) => flag !== undefined && typeof flag !== 'boolean')) {
+    throw new Error('The conversion switches in the project bundle must be true or false.');
+  }
+
+  const limits = { ...defaultConversionOptions.entryLimitOverrides };
+  if (entryLimitOverrides !== undefined) {
+    if (!isPlainObject(entryLimitOverrides)) {
+      throw new Error('The entry limits in the project bundle must be an object.');
+    }
+    for (const key of Object.keys(limits) as Array<keyof EntryLimits>) {
+      const limit = entryLimitOverrides[key] ?? null;
+      if (limit !== null && !(typeof limit === 'number' && Number.isInteger(limit) && limit > 0)) {
+        throw new Error(`The entry limit "${key}" in the project bundle must be a positive whole number.`);
+      }
+      limits[key] = limit;
+    }
+  }
+
+  const table = isPlainObject(courseConversionTable) ? courseConversionTable : null;
+  if (courseConversionTable !== undefined && (!table || typeof table.id !== 'string')) {
+    throw new Error('The conversion table in the project bundle needs an id.');
+  }
+
+  return {
+    checkRelayAgeClasses: checkRelayAgeClasses === true,
+    convertEntryTimes: convertEntryTimes === true,
+    courseConversionTable: table
+      ? parseCourseConversionTable(JSON.stringify(table), String(table.id))
+      : defaultConversionOptions.courseConversionTable,
+    entryLimitOverrides: limits
+  };
+};
+
+// Missing settings fall back to the defaults. Settings that are present are checked, since the app reads them
+// without checks when the project is opened.
+const parseProjectSettings = (value: unknown): ProjectSettings => {
+  if (!isPlainObject(value)) {
+    throw new Error('The project settings in the bundle must be an object.');
+  }
+
+  const { uniPEncoding = 'auto', uniPDialect, uniPColumnMapping = {}, conversionOptions = {} } = value;
+  const { mergeIntoLenexClubs = false } = value;
+  if (!uniPEncodingSettings.includes(uniPEncoding as UniPEncodingSetting)) {
+    throw new Error(`Unknown UNI_p encoding "${String(uniPEncoding)}" in the project bundle.`);
+  }
+  if (typeof mergeIntoLenexClubs !== 'boolean') {
+    throw new Error('The merge setting in the project bundle must be true or false.');
+  }
+
+  const dialect = isPlainObject(uniPDialect) ? uniPDialect : null;
+  if (uniPDialect !== undefined && (!dialect || typeof dialect.id !== 'string')) {
+    throw new Error('The UNI_p profile in the project bundle needs an id.');
+  }
+
+  return {
+    uniPEncoding: uniPEncoding as UniPEncodingSetting,
+    uniPDialect: dialect ? parseUniPDialect(JSON.stringify(dialect), String(dialect.id)) : defaultUniPDialect,
+    uniPColumnMapping: parseColumnMapping(uniPColumnMapping),
+    conversionOptions: parseConversionOptions(conversionOptions),
+    mergeIntoLenexClubs
+  };
+};
+
+export const parseProjectBundle = (json: string): ConversionProject => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The project bundle is not valid JSON.');
+  }
+
+  const bundle = parsed as { format?: unknown; version?: unknown; project?: Partial<ConversionProject> } | null;
+  if (!bundle || bundle.format !== bundleFormat || !bundle.project) {
+    throw new Error('The file is not a UNI_p to Lenex project bundle.');
+  }
+  if (bundle.version !== bundleVersion) {
+    throw new Error(`Unsupported project bundle version ${String(bundle.version)}.`);
+  }
+
+  const project = bundle.project;
+  if (typeof project.name !== 'string' || !Array.isArray(project.clubFiles) || !project.settings) {
+    throw new Error('The project bundle is missing the project name, club files or settings.');
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: typeof project.id === 'string' ? project.id : createProjectId(),
+    name: project.name,
+    createdAt: typeof project.createdAt === 'string' ? project.createdAt : now,
+    updatedAt: now,
+    meetFile: project.meetFile ? decodeStoredFile<StoredFile>(project.meetFile, 'meet file') : null,
+    clubFiles: project.clubFiles.map((file) => {
+      const clubFile = decodeStoredFile<ProjectClubFile>(file, 'club file');
+      return {
+        fileName: clubFile.fileName,
+        bytes: clubFile.bytes,
+        rowEdits: parseRowEdits(clubFile.rowEdits, clubFile.fileName)
+      };
+    }),
+    rosterFile: project.rosterFile ? decodeStoredFile<StoredFile>(project.rosterFile, 'roster file') : null,
+    settings: parseProjectSettings(project.settings)
+  };
+};
@@ -0,0 +1,69 @@
+// Swim times are handled as whole hundredths of a second.
+export const parseLenexSwimTime = (value: string | null): number | null => {
+  const match = (value ?? '').trim().match(/^(\d{2}):(\d{2}):(\d{2})\.(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const hundredths = ((Number(match[1]) * 60 + Number(match[2])) * 60 + Number(match[3])) * 100 + Number(match[4]);
+  return hundredths > 0 ? hundredths : null;
+};
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+// Short form for display, e.g. 59.87 or 1:05.32.
+export const formatSwimTime = (hundredths: number): string => {
+  const totalSeconds = Math.floor(hundredths / 100);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}:${pad2(seconds)}.${pad2(hundredths % 100)}` : `${seconds}.${pad2(hundredths % 100)}`;
+};
+
+export const formatTimeDifference = (hundredths: number): string =>
+  `${hundredths < 0 ? '-' : '+'}${(Math.abs(hundredths) / 100).toFixed(2)} s`;
+
+export const toLenexSwimTime = (hundredths: number): string => {
+  const totalSeconds = Math.floor(hundredths / 100);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return `${pad2(hours)}:${pad2(minutes)}:${pad2(totalSeconds % 60)}.${pad2(hundredths % 100)}`;
+};
+
+const noTimeValues = new Set(['', 'NT']);
+
+// Accepts seconds only (75.20), minutes (1:05.32 or 1.05.32) and hours (1:02:03.45), with a point or a comma
+// before tenths or hundredths. Empty, NT and zero times mean no time.
+export const parseSwimTime = (value: string | null): { hundredths: number | null; error: string | null } => {
+  const original = (value ?? '').trim();
+  const trimmed = original.toUpperCase();
+  if (noTimeValues.has(trimmed)) {
+    return { hundredths: null, error: null };
+  }
+
+  let normalized = trimmed.replace(',', '.');
+  // Without colons, all points but the last separate minutes and seconds.
+  if (!normalized.includes(':') && (normalized.match(/\./g) ?? []).length > 1) {
+    const lastPoint = normalized.lastIndexOf('.');
+    normalized = `${normalized.slice(0, lastPoint).replace(/\./g, ':')}${normalized.slice(lastPoint)}`;
+  }
+
+  const match = normalized.match(/^(?:(?:(\d{1,2}):)?(\d{1,3}):)?(\d{1,4})(?:\.(\d{1,2}))?$/);
+  if (!match) {
+    return { hundredths: null, error: `"${original}" is not a valid time` };
+  }
+
+  const [, hoursText, minutesText, secondsText, fractionText = ''] = match;
+  if (minutesText !== undefined && (secondsText.length !== 2 || Number(secondsText) > 59)) {
+    return { hundredths: null, error: `"${original}" has invalid seconds` };
+  }
+  if (hoursText !== undefined && (minutesText.length !== 2 || Number(minutesText) > 59)) {
+    return { hundredths: null, error: `"${original}" has invalid minutes` };
+  }
+
+  // A single decimal is tenths of a second.
+  const fraction = fractionText.length === 1 ? Number(fractionText) * 10 : Number(fractionText || '0');
+  const seconds = (Number(hoursText ?? '0') * 60 + Number(minutesText ?? '0')) * 60 + Number(secondsText);
+  const hundredths = seconds * 100 + fraction;
+
+  return { hundredths: hundredths > 0 ? hundredths : null, error: null };
+};
@@ -0,0 +1,205 @@
+import type { EncodingDetection, UniPEncoding, UniPEncodingSetting } from './types';
+
+const xmlEncodingPattern = /<\?xml[^>]*encoding=["']([^"']+)["']/i;
+
+const normalizeEncoding = (encoding: string) => encoding.trim().toLowerCase().replace(/_/g, '-');
+
+// Decoders for encodings TextDecoder does not know, keyed by normalised encoding name.
+const customXmlDecoders = new Map<string, (bytes: Uint8Array) => string>();
+
+export const registerXmlDecoder = (encoding: string, decode: (bytes: Uint8Array) => string) => {
+  customXmlDecoders.set(normalizeEncoding(encoding), decode);
+};
+
+const hasUtf8Bom = (bytes: Uint8Array) =>
+  bytes.length >= 3 && bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf;
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const hasUtf8MultiByteCharacters = (bytes: Uint8Array) => bytes.some((byte) => byte >= 0x80) && isValidUtf8(bytes);
+
+const isTextDecoderEncoding = (encoding: string) => {
+  try {
+    new TextDecoder(encoding);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const isKnownEncoding = (encoding: string) => customXmlDecoders.has(encoding) || isTextDecoderEncoding(encoding);
+
+const decodeWith = (bytes: Uint8Array, encoding: string) =>
+  customXmlDecoders.get(encoding)?.(bytes) ?? new TextDecoder(encoding).decode(bytes);
+
+const getByteOrderMark = (bytes: Uint8Array): 'utf-8' | 'utf-16le' | 'utf-16be' | null => {
+  if (hasUtf8Bom(bytes)) {
+    return 'utf-8';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return 'utf-16be';
+  }
+  return null;
+};
+
+// UTF-16 without a BOM still starts with "<?" as two-byte characters.
+const sniffUtf16 = (bytes: Uint8Array): 'utf-16le' | 'utf-16be' | null => {
+  if (bytes[0] === 0x3c && bytes[1] === 0x00 && bytes[2] === 0x3f && bytes[3] === 0x00) {
+    return 'utf-16le';
+  }
+  if (bytes[0] === 0x00 && bytes[1] === 0x3c && bytes[2] === 0x00 && bytes[3] === 0x3f) {
+    return 'utf-16be';
+  }
+  return null;
+};
+
+const isUtf8Family = (encoding: string) => encoding === 'utf-8' || encoding === 'utf8';
+const isUtf16Family = (encoding: string) => encoding.startsWith('utf-16') || encoding === 'unicode';
+
+// Whether the declaration can describe bytes in the BOM's encoding, e.g. "UTF-16" for a UTF-16LE BOM.
+const declarationMatchesBom = (declared: string, bom: string) =>
+  bom === 'utf-8' ? isUtf8Family(declared) : isUtf16Family(declared) && (declared === 'utf-16' || declared === bom);
+
+// A BOM wins over the declaration, and bytes that clearly contradict the declaration win over it as well. Every
+// disagreement is reported as a warning instead of rejecting the file.
+export const decodeXmlBytes = (bytes: Uint8Array): { content: string; encoding: string; warnings: string[] } => {
+  const warnings: string[] = [];
+  const bom = getByteOrderMark(bytes);
+  const byteEncoding = bom ?? sniffUtf16(bytes);
+  const header = byteEncoding
+    ? new TextDecoder(byteEncoding).decode(bytes.slice(0, 1024))
+    : new TextDecoder('iso-8859-1').decode(bytes.slice(0, 512));
+  const declaredEncoding = header.match(xmlEncodingPattern)?.[1] ?? null;
+  const declared = declaredEncoding ? normalizeEncoding(declaredEncoding) : null;
+
+  if (declared && !isKnownEncoding(declared)) {
+    warnings.push(`Unknown XML encoding "${declaredEncoding}", the encoding was detected from the bytes instead.`);
+  }
+  const knownDeclared = declared && isKnownEncoding(declared) ? declared : null;
+
+  let encoding: string;
+  if (byteEncoding) {
+    encoding = byteEncoding;
+    if (knownDeclared && !declarationMatchesBom(knownDeclared, byteEncoding)) {
+      const evidence = bom ? 'byte order mark' : 'byte pattern';
+      warnings.push(
+        `The file declares encoding "${declaredEncoding}" but its ${evidence} is ${byteEncoding.toUpperCase()}; ` +
+          `decoded as ${byteEncoding.toUpperCase()}.`
+      );
+    }
+  } else if (knownDeclared && isUtf16Family(knownDeclared) && !bytes.slice(0, 1024).includes(0)) {
+    // The declaration was readable as single-byte text, which UTF-16 text without a BOM never is.
+    encoding = isValidUtf8(bytes) ? 'utf-8' : 'windows-1252';
+    warnings.push(
+      `The file declares encoding "${declaredEncoding}" but its bytes are not UTF-16; ` +
+        `decoded as ${encoding === 'utf-8' ? 'UTF-8' : 'Windows-1252'}.`
+    );
+  } else if (knownDeclared && !isUtf8Family(knownDeclared)) {
+    encoding = knownDeclared;
+    if (!isUtf16Family(knownDeclared) && hasUtf8MultiByteCharacters(bytes)) {
+      warnings.push(
+        `The file declares encoding "${declaredEncoding}" but its bytes are valid UTF-8; decoded as UTF-8.`
+      );
+      encoding = 'utf-8';
+    }
+  } else {
+    // No or a UTF-8 declaration. Lenex files exported from Windows tools are often Windows-1252 regardless.
+    encoding = 'utf-8';
+    if (!isValidUtf8(bytes)) {
+      const declaration = declaredEncoding ? `declares encoding "${declaredEncoding}"` : 'has no encoding declaration';
+      warnings.push(`The file ${declaration} but is not valid UTF-8; decoded as Windows-1252.`);
+      encoding = 'windows-1252';
+    }
+  }
+
+  return { content: decodeWith(bytes, encoding), encoding, warnings };
+};
+
+export const decodePlainTextBytes = (bytes: Uint8Array, encoding: UniPEncoding): string => {
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+// Code points of the Windows-1252 characters in 0x80-0x9F, which ISO-8859-1 uses for control characters.
+const windows1252ByteByCodePoint = new Map(
+  Array.from({ length: 32 }, (_, index) => 0x80 + index).flatMap((byte) => {
+    const character = new TextDecoder('windows-1252').decode(Uint8Array.of(byte));
+    const codePoint = character.codePointAt(0) ?? byte;
+    return codePoint > 0xff ? [[codePoint, byte] as const] : [];
+  })
+);
+
+export const encodePlainText = (content: string, encoding: UniPEncoding): Uint8Array => {
+  if (encoding === 'utf-8') {
+    return new TextEncoder().encode(content);
+  }
+
+  // TextEncoder only produces UTF-8, so single-byte encodings are written byte by byte with "?" for unmappable
+  // characters.
+  return Uint8Array.from(Array.from(content), (character) => {
+    const codePoint = character.codePointAt(0) ?? 0x3f;
+    if (encoding === 'windows-1252' && windows1252ByteByCodePoint.has(codePoint)) {
+      return windows1252ByteByCodePoint.get(codePoint) ?? 0x3f;
+    }
+    return codePoint <= 0xff ? codePoint : 0x3f;
+  });
+};
+
+// Æ Ø Å Ä Ö Ü and their lower case forms, in ISO-8859-1 and Windows-1252.
+const nordicLatin1Bytes = new Set([0xc4, 0xc5, 0xc6, 0xd6, 0xd8, 0xdc, 0xe4, 0xe5, 0xe6, 0xf6, 0xf8, 0xfc]);
+
+// BOM first, then UTF-8 validity, then which single-byte encoding fits the bytes above 0x7F best.
+export const detectPlainTextEncoding = (bytes: Uint8Array): EncodingDetection => {
+  if (hasUtf8Bom(bytes)) {
+    return { encoding: 'utf-8', confidence: 'high', reason: 'UTF-8 byte order mark' };
+  }
+
+  const highBytes = bytes.filter((byte) => byte >= 0x80);
+  if (highBytes.length === 0) {
+    return { encoding: 'iso-8859-1', confidence: 'high', reason: 'plain ASCII, any encoding reads it the same' };
+  }
+
+  if (isValidUtf8(bytes)) {
+    // Random single-byte text is almost never valid UTF-8, so any multi-byte sequence is a strong signal.
+    return { encoding: 'utf-8', confidence: 'high', reason: 'valid UTF-8 with multi-byte characters' };
+  }
+
+  const windows1252Bytes = highBytes.filter((byte) => byte <= 0x9f).length;
+  if (windows1252Bytes > 0) {
+    return {
+      encoding: 'windows-1252',
+      confidence: 'medium',
+      reason: `${windows1252Bytes} bytes in 0x80-0x9F, which are only printable in Windows-1252`
+    };
+  }
+
+  const nordicShare = highBytes.filter((byte) => nordicLatin1Bytes.has(byte)).length / highBytes.length;
+  return nordicShare >= 0.5
+    ? { encoding: 'iso-8859-1', confidence: 'high', reason: 'not UTF-8, special characters are Nordic letters' }
+    : { encoding: 'iso-8859-1', confidence: 'low', reason: 'not UTF-8, special characters are not Nordic letters' };
+};
+
+export const encodingLabels: Record<UniPEncoding, string> = {
+  'iso-8859-1': 'ISO-8859-1',
+  'windows-1252': 'Windows-1252',
+  'utf-8': 'UTF-8'
+};
+
+// The detection is kept even when the setting overrides it, so that a wrong override can be spotted.
+export const decodePlainTextWithSetting = (
+  bytes: Uint8Array,
+  setting: UniPEncodingSetting
+): { content: string; encoding: UniPEncoding; detection: EncodingDetection } => {
+  const detection = detectPlainTextEncoding(bytes);
+  const encoding = setting === 'auto' ? detection.encoding : setting;
+  return { content: decodePlainTextBytes(bytes, encoding), encoding, detection };
+};
@@ -1,3 +1,49 @@
+export type LenexAgeGroup = {
+  agemin: number;
+  agemax: number;
+  name: string;
+  // SINGLE bounds each swimmer's age, TOTAL bounds the sum of the relay swimmers' ages.
+  calculate: string;
+};
+
+export type LenexAgeDate = {
+  value: string;
+  // YEAR counts by year of birth only; DATE and CAN.FNQ use the exact age on the date.
+  type: string;
+};
+
+export type LenexTimeStandard = {
+  listName: string;
+  course: string;
+  // Empty when the list is for both genders.
+  gender: string;
+  // MAXIMUM (and DEFAULT) is a qualifying time, MINIMUM a time the entry must not be faster than.
+  type: string;
+  agemin: number;
+  agemax: number;
+  swimTime: string;
+};
+
+// Entry limits from the meet rules, null for no limit.
+export type EntryLimits = {
+  // Individual entries per swimmer in the whole meet.
+  athleteMeet: number | null;
+  // Individual entries per swimmer in one session.
+  athleteSession: number | null;
+  // Relay teams per club in one event.
+  relayEvent: number | null;
+  // Entries per club in one event, individual or relay.
+  clubEvent: number | null;
+};
+
+export type LenexFee = {
+  // ATHLETE, RELAY or CLUB in a FEES list; empty for the entry fee of an EVENT.
+  type: string;
+  // In cents.
+  value: number;
+  currency: string;
+};
+
 export type LenexEvent = {
   number: string;
   eventId: string;
@@ -7,18 +53,24 @@ export type LenexEvent = {
   stroke: string;
   relayCount: number;
   distance: number;
+  sessionNumber: string;
   sessionDate: string;
-  ageGroups: Array<{
-    agemin: number;
-    agemax: number;
-    name: string;
-  }>;
+  // The meet's AGEDATE, copied to each event like the session date.
+  ageDate: LenexAgeDate | null;
+  ageGroups: LenexAgeGroup[];
+  // Time standards of the lists referenced by the event, for its swim style.
+  timeStandards: LenexTimeStandard[];
+  // The limits that apply to the event, from the MEET, SESSION and EVENT attributes.
+  entryLimits: EntryLimits;
+  // Entry fee of the event.
+  fee: LenexFee | null;
 };
 
 export type LenexSession = {
   number: string;
   name: string;
   date: string;
+  fees: LenexFee[];
   events: LenexEvent[];
 };
 
@@ -27,10 +79,56 @@ export type LenexMeetSummary = {
   city: string;
   nation: string;
   course: string;
+  ageDate: LenexAgeDate | null;
+  entryLimits: EntryLimits;
+  fees: LenexFee[];
   sessions: LenexSession[];
   totalEvents: number;
 };
 
+export type LenexSwim = {
+  eventId: string;
+  swimTime: string | null;
+  course: string | null;
+  qualificationDate: string | null;
+  qualificationPlace: string | null;
+};
+
+export type LenexHandicap = {
+  free: string | null;
+  breast: string | null;
+  medley: string | null;
+};
+
+export type LenexAthlete = {
+  athleteId: string;
+  firstName: string;
+  lastName: string;
+  gender: string;
+  birthDate: string;
+  handicap: LenexHandicap | null;
+  entries: LenexSwim[];
+  results: LenexSwim[];
+};
+
+export type LenexRelay = {
+  number: string;
+  name: string;
+  gender: string;
+  ageTotalMin: number;
+  ageTotalMax: number;
+  entries: LenexSwim[];
+  results: LenexSwim[];
+};
+
+export type LenexClub = {
+  name: string;
+  code: string;
+  nation: string;
+  athletes: LenexAthlete[];
+  relays: LenexRelay[];
+};
+
 export type UniPRow = {
   lineNumber: number;
   eventNumber: number | null;
@@ -44,13 +142,183 @@ export type UniPRow = {
   ageGroupCode: string;
   birthYearOrClass: string;
   qualificationTime: string | null;
+  // Field 9 parsed to hundredths of a second, null for no time (empty, NT or zero) and for invalid times.
+  entryTime: number | null;
   qualificationDate: string | null;
   qualificationPlace: string | null;
   poolCourse: string | null;
+  // Relay swimmer names by leg (index 0 is leg 1), empty when the swimmer is unknown.
+  relaySwimmers: string[];
+  // From a column bound to the licence or nation, null when none is bound or it is empty.
+  license: string | null;
+  nation: string | null;
+  // Raw UNI_p fields as read from the file, padded to at least 15 columns.
+  fields: string[];
   issues: string[];
+  // Reported, but the row is still exported.
+  warnings: string[];
 };
 
+// What one of the otherwise unused fields 6, 10, 14 and 15 holds.
+export type UniPColumnBinding = 'license' | 'nation' | 'relaySwimmers';
+
+// Bindings by field number. Unbound fields are expected to be empty.
+export type UniPColumnMapping = Partial<Record<number, UniPColumnBinding>>;
+
 export type UniPParseResult = {
   clubName: string;
   rows: UniPRow[];
 };
+
+// The national code tables of a UNI_p variant. Codes are upper case.
+export type UniPDialect = {
+  id: string;
+  name: string;
+  // Field 3 codes to Lenex strokes.
+  strokes: Record<string, string>;
+  // Field 3 code written for medley relays, when it differs from the individual medley code.
+  medleyRelayCode?: string;
+  // Field 7 gender codes to Lenex genders.
+  genders: Record<string, string>;
+  // Field 7 age group codes to age group names. Masters classes are named "Masters A" and so on.
+  ageGroups: Record<string, string>;
+  // Field 8 class codes to age group names.
+  relayClasses: Record<string, string>;
+};
+
+export type UniPEncoding = 'iso-8859-1' | 'windows-1252' | 'utf-8';
+
+// Auto-detects the encoding of each file, an encoding overrides the detection.
+export type UniPEncodingSetting = UniPEncoding | 'auto';
+
+export type EncodingDetection = {
+  encoding: UniPEncoding;
+  confidence: 'high' | 'medium' | 'low';
+  reason: string;
+};
+
+export type RosterAthlete = {
+  lineNumber: number;
+  lastName: string;
+  firstName: string;
+  gender: string;
+  // Full birth date as YYYY-MM-DD.
+  birthDate: string;
+  license: string;
+};
+
+export type AthleteRosterParseResult = {
+  athletes: RosterAthlete[];
+  issues: string[];
+};
+
+export type RosterMatch = {
+  row: UniPRow;
+  candidates: RosterAthlete[];
+};
+
+export type CourseConversionTable = {
+  id: string;
+  name: string;
+  // factor: long course time = short course time x value; secondsPer50: value seconds are added per 50 m.
+  method: 'factor' | 'secondsPer50';
+  // Values by stroke, then by distance in meters or "default" for the other distances.
+  values: Record<string, Record<string, number>>;
+};
+
+export type ConversionOptions = {
+  // Map the relay class in field 7 to the event's age groups, and write its age bounds on the RELAY.
+  checkRelayAgeClasses: boolean;
+  // Convert entry times swum in the other pool length to the meet's course.
+  convertEntryTimes: boolean;
+  courseConversionTable: CourseConversionTable;
+  // Limits that replace the meet's, null to use the meet's limit.
+  entryLimitOverrides: EntryLimits;
+};
+
+export type SwimmerFee = {
+  name: string;
+  entries: number;
+  // In cents, as the other fee amounts.
+  entryFees: number;
+  athleteFees: number;
+  total: number;
+};
+
+export type FeeLine = {
+  label: string;
+  count: number;
+  amount: number;
+};
+
+export type ClubFeeSummary = {
+  currency: string;
+  swimmers: SwimmerFee[];
+  // By fee type: individual and relay entries, athlete, relay and club fees.
+  lines: FeeLine[];
+  total: number;
+};
+
+export type LenexMergeChange = {
+  club: string;
+  // Athlete or relay name.
+  name: string;
+  event: string;
+  detail: string;
+};
+
+export type LenexMergeReport = {
+  added: LenexMergeChange[];
+  changed: LenexMergeChange[];
+  // Entries already in the file, including those of other clubs.
+  untouched: LenexMergeChange[];
+};
+
+export type LenexContact = {
+  name: string;
+  email: string;
+  phone: string;
+};
+
+// Written into the exported CLUB. Empty values are left out, an empty name falls back to the UNI_p header.
+export type ClubDetails = {
+  name: string;
+  shortName: string;
+  code: string;
+  nation: string;
+  region: string;
+  contact: LenexContact;
+};
+
+// Remembered club details, keyed by the club name of the UNI_p header.
+export type ClubProfiles = Record<string, ClubDetails>;
+
+export type StoredFile = {
+  fileName: string;
+  bytes: Uint8Array;
+};
+
+export type ProjectClubFile = StoredFile & {
+  rowEdits: Record<number, string[]>;
+};
+
+export type ProjectSettings = {
+  uniPEncoding: UniPEncodingSetting;
+  // Stored in full, so that custom code tables and conversion tables come back with the project.
+  uniPDialect: UniPDialect;
+  uniPColumnMapping: UniPColumnMapping;
+  conversionOptions: ConversionOptions;
+  mergeIntoLenexClubs: boolean;
+};
+
+// The meet file, club files, row edits and settings of one conversion, saved in the browser.
+export type ConversionProject = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  meetFile: StoredFile | null;
+  clubFiles: ProjectClubFile[];
+  rosterFile: StoredFile | null;
+  settings: ProjectSettings;
+};
@@ -0,0 +1,112 @@
+import { lenexStrokes } from './lenexValidation';
+import type { UniPDialect } from './types';
+
+const mastersClassLetters = 'ABCDEFGHIJKLMNO'.split('');
+
+// Field 7 "MA" to "MO" and field 8 "MASTERSA" to "MASTERSO" are shared by the Nordic variants.
+const mastersAgeGroups = Object.fromEntries(mastersClassLetters.map((letter) => [`M${letter}`, `Masters ${letter}`]));
+const mastersRelayClasses = Object.fromEntries(
+  mastersClassLetters.map((letter) => [`MASTERS${letter}`, `Masters ${letter}`])
+);
+
+export const uniPDialects: UniPDialect[] = [
+  {
+    id: 'no',
+    name: 'Norwegian',
+    strokes: { FR: 'FREE', BR: 'BREAST', RY: 'BACK', BU: 'FLY', IM: 'MEDLEY', LM: 'MEDLEY' },
+    medleyRelayCode: 'LM',
+    genders: { M: 'M', K: 'F', X: 'X' },
+    ageGroups: { JR: 'Junior', SR: 'Senior', YJ: 'Yngre junior', EJ: 'Eldre junior', ...mastersAgeGroups },
+    relayClasses: { JUNIOR: 'Junior', SENIOR: 'Senior', ...mastersRelayClasses }
+  },
+  {
+    id: 'se',
+    name: 'Swedish',
+    strokes: { FR: 'FREE', BR: 'BREAST', RY: 'BACK', FJ: 'FLY', IM: 'MEDLEY', LM: 'MEDLEY' },
+    medleyRelayCode: 'LM',
+    genders: { H: 'M', D: 'F', X: 'X' },
+    ageGroups: { JR: 'Junior', SR: 'Senior', ...mastersAgeGroups },
+    relayClasses: { JUNIOR: 'Junior', SENIOR: 'Senior', ...mastersRelayClasses }
+  },
+  {
+    id: 'en',
+    name: 'English codes',
+    strokes: { FR: 'FREE', BR: 'BREAST', BK: 'BACK', FL: 'FLY', IM: 'MEDLEY', MR: 'MEDLEY' },
+    medleyRelayCode: 'MR',
+    genders: { M: 'M', F: 'F', X: 'X' },
+    ageGroups: { JR: 'Junior', SR: 'Senior', ...mastersAgeGroups },
+    relayClasses: { JUNIOR: 'Junior', SENIOR: 'Senior', ...mastersRelayClasses }
+  }
+];
+
+export const defaultUniPDialect = uniPDialects[0];
+
+const lenexGenders = ['M', 'F', 'X'];
+
+// Codes by value, for writing UNI_p files. The first code per value wins.
+export const invertCodeTable = (table: Record<string, string>): Record<string, string> => {
+  const inverted: Record<string, string> = {};
+  for (const [code, value] of Object.entries(table)) {
+    inverted[value] ??= code;
+  }
+  return inverted;
+};
+
+export const formatCodeList = (table: Record<string, string>) => Object.keys(table).join(', ');
+
+const parseCodeTable = (value: unknown, name: string, allowedValues: string[] | null): Record<string, string> => {
+  if (value === undefined) {
+    return {};
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`The profile's "${name}" must be an object of codes.`);
+  }
+
+  const table: Record<string, string> = {};
+  for (const [code, mapped] of Object.entries(value)) {
+    if (typeof mapped !== 'string' || !mapped.trim()) {
+      throw new Error(`Invalid value for code "${code}" in "${name}".`);
+    }
+    const normalized = allowedValues ? mapped.trim().toUpperCase() : mapped.trim();
+    if (allowedValues && !allowedValues.includes(normalized)) {
+      throw new Error(
+        `Unknown value "${mapped}" for code "${code}" in "${name}". Supported: ${allowedValues.join(', ')}.`
+      );
+    }
+    table[code.trim().toUpperCase()] = normalized;
+  }
+  return table;
+};
+
+// Custom profiles use the same shape as the built-in ones, e.g.
+// { "name": "Club variant", "strokes": { "FR": "FREE", "RY": "BACK" }, "genders": { "M": "M", "K": "F" },
+//   "ageGroups": { "SR": "Senior" }, "relayClasses": { "SENIOR": "Senior" } }
+export const parseUniPDialect = (json: string, id: string): UniPDialect => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The UNI_p profile is not valid JSON.');
+  }
+
+  const candidate = parsed as Partial<Record<keyof UniPDialect, unknown>> | null;
+  if (!candidate || typeof candidate !== 'object' || !candidate.strokes || !candidate.genders) {
+    throw new Error('The UNI_p profile needs "strokes" and "genders" code tables.');
+  }
+
+  const strokes = parseCodeTable(candidate.strokes, 'strokes', lenexStrokes);
+  const medleyRelayCode = typeof candidate.medleyRelayCode === 'string' ? candidate.medleyRelayCode.toUpperCase() : '';
+  if (medleyRelayCode && strokes[medleyRelayCode] !== 'MEDLEY') {
+    throw new Error(`The medley relay code "${medleyRelayCode}" is not a MEDLEY code in "strokes".`);
+  }
+
+  return {
+    id,
+    name: typeof candidate.name === 'string' && candidate.name ? candidate.name : id,
+    strokes,
+    ...(medleyRelayCode ? { medleyRelayCode } : {}),
+    genders: parseCodeTable(candidate.genders, 'genders', lenexGenders),
+    ageGroups: parseCodeTable(candidate.ageGroups, 'ageGroups', null),
+    relayClasses: parseCodeTable(candidate.relayClasses, 'relayClasses', null)
+  };
+};
@@ -0,0 +1,229 @@
+import type {
+  LenexAthlete,
+  LenexClub,
+  LenexEvent,
+  LenexMeetSummary,
+  LenexRelay,
+  LenexSwim,
+  UniPDialect,
+  UniPRow
+} from './types';
+import { defaultUniPDialect, invertCodeTable } from './unipDialects';
+import { uniPFieldCount } from './unipParser';
+import { mastersRelayClasses } from './validation';
+
+export type UniPExportSource = 'entries' | 'results';
+
+const toUniPStrokeCode = (event: LenexEvent, dialect: UniPDialect): string => {
+  if (event.stroke === 'MEDLEY' && event.relayCount > 1 && dialect.medleyRelayCode) {
+    return dialect.medleyRelayCode;
+  }
+
+  return invertCodeTable(dialect.strokes)[event.stroke] ?? '';
+};
+
+const toUniPTime = (value: string | null): string => {
+  const match = (value ?? '').trim().match(/^(\d{1,2}):(\d{2}):(\d{2})\.(\d{2})$/);
+  if (!match) {
+    return '';
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  if (minutes === 0 && match[3] === '00' && match[4] === '00') {
+    return '';
+  }
+
+  return `${String(minutes).padStart(2, '0')}:${match[3]}.${match[4]}`;
+};
+
+const toUniPDate = (value: string | null): string => {
+  const match = (value ?? '').trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  return match ? `${match[1]}${match[2]}${match[3]}` : '';
+};
+
+const toUniPPoolCode = (value: string | null): string => {
+  const course = (value ?? '').trim().toUpperCase();
+  if (course === 'SCM') {
+    return 'K';
+  }
+  if (course === 'LCM') {
+    return 'L';
+  }
+  return '';
+};
+
+const getParaClass = (athlete: LenexAthlete, event: LenexEvent): string | null => {
+  if (!athlete.handicap) {
+    return null;
+  }
+
+  if (event.stroke === 'BREAST') {
+    return athlete.handicap.breast ? `SB${athlete.handicap.breast}` : null;
+  }
+
+  if (event.stroke === 'MEDLEY') {
+    return athlete.handicap.medley ? `SM${athlete.handicap.medley}` : null;
+  }
+
+  return athlete.handicap.free ? `S${athlete.handicap.free}` : null;
+};
+
+const getRelayClass = (relay: LenexRelay, dialect: UniPDialect): { field7Code: string; field8Class: string } => {
+  const ageGroupCodeByName = invertCodeTable(dialect.ageGroups);
+  const relayClassCodeByName = invertCodeTable(dialect.relayClasses);
+  // The class holding the lower bound of the age total, which also works when there is no upper bound (-1).
+  const mastersClass =
+    relay.ageTotalMin < 0
+      ? undefined
+      : [...mastersRelayClasses].reverse().find((item) => relay.ageTotalMin >= item.ageTotalMin);
+
+  if (mastersClass) {
+    return {
+      field7Code: ageGroupCodeByName[`Masters ${mastersClass.code}`] ?? `M${mastersClass.code}`,
+      field8Class: relayClassCodeByName[`Masters ${mastersClass.code}`] ?? ''
+    };
+  }
+
+  return { field7Code: ageGroupCodeByName.Senior ?? 'SR', field8Class: relayClassCodeByName.Senior ?? '' };
+};
+
+const buildSwimFields = (
+  swim: LenexSwim,
+  event: LenexEvent,
+  meet: LenexMeetSummary,
+  source: UniPExportSource
+): { time: string; date: string; place: string; pool: string } => {
+  // Results carry no MEETINFO, so the qualification data is the meet itself.
+  if (source === 'results') {
+    return {
+      time: toUniPTime(swim.swimTime),
+      date: toUniPDate(event.sessionDate),
+      place: meet.city,
+      pool: toUniPPoolCode(meet.course)
+    };
+  }
+
+  return {
+    time: toUniPTime(swim.swimTime),
+    date: toUniPDate(swim.qualificationDate),
+    place: swim.qualificationPlace ?? '',
+    pool: toUniPPoolCode(swim.course)
+  };
+};
+
+// Values with a comma or a quote are quoted, with "" for a quote, the way the parser reads them.
+const quoteUniPField = (value: string) => (/[",]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const formatUniPLine = (fields: string[]) => {
+  const padded = [...fields];
+  while (padded.length < uniPFieldCount) {
+    padded.push('');
+  }
+
+  return padded.map((field) => quoteUniPField(field.trim())).join(',');
+};
+
+const joinUniPLines = (lines: string[]) => `${lines.join('\r\n')}\r\n`;
+
+export const formatUniPFile = (clubName: string, rows: UniPRow[]) =>
+  joinUniPLines([clubName, ...rows.map((row) => formatUniPLine(row.fields))]);
+
+export const buildUniPFromLenexClub = ({
+  club,
+  meet,
+  source,
+  dialect = defaultUniPDialect
+}: {
+  club: LenexClub;
+  meet: LenexMeetSummary;
+  source: UniPExportSource;
+  dialect?: UniPDialect;
+}): { content: string; rowCount: number; skippedSwims: number } => {
+  const genderCodeByGender = invertCodeTable(dialect.genders);
+  const seniorCode = invertCodeTable(dialect.ageGroups).Senior ?? 'SR';
+
+  const eventsById = new Map<string, LenexEvent>();
+  for (const session of meet.sessions) {
+    for (const event of session.events) {
+      eventsById.set(event.eventId, event);
+    }
+  }
+
+  const rows: Array<{ event: LenexEvent; line: string }> = [];
+  let skippedSwims = 0;
+
+  for (const athlete of club.athletes) {
+    const birthYear = athlete.birthDate.match(/^(\d{4})/)?.[1] ?? '';
+    const genderCode = genderCodeByGender[athlete.gender] ?? '';
+
+    for (const swim of source === 'results' ? athlete.results : athlete.entries) {
+      const event = eventsById.get(swim.eventId);
+      if (!event || event.relayCount > 1) {
+        skippedSwims += 1;
+        continue;
+      }
+
+      const swimFields = buildSwimFields(swim, event, meet, source);
+      rows.push({
+        event,
+        line: formatUniPLine([
+          event.number,
+          String(event.distance),
+          toUniPStrokeCode(event, dialect),
+          athlete.lastName,
+          athlete.firstName,
+          '',
+          `${genderCode}${birthYear ? birthYear.slice(2) : seniorCode}`,
+          getParaClass(athlete, event) ?? birthYear,
+          swimFields.time,
+          '',
+          swimFields.date,
+          swimFields.place,
+          swimFields.pool
+        ])
+      });
+    }
+  }
+
+  for (const relay of club.relays) {
+    const relayClass = getRelayClass(relay, dialect);
+    const genderCode = genderCodeByGender[relay.gender] ?? '';
+
+    for (const swim of source === 'results' ? relay.results : relay.entries) {
+      const event = eventsById.get(swim.eventId);
+      if (!event || event.relayCount <= 1) {
+        skippedSwims += 1;
+        continue;
+      }
+
+      const swimFields = buildSwimFields(swim, event, meet, source);
+      rows.push({
+        event,
+        line: formatUniPLine([
+          event.number,
+          `${event.relayCount}*${event.distance}`,
+          toUniPStrokeCode(event, dialect),
+          relay.name || `${club.name} ${relay.number}`,
+          '',
+          '',
+          `${genderCode}${relayClass.field7Code}`,
+          relayClass.field8Class,
+          swimFields.time,
+          '',
+          swimFields.date,
+          swimFields.place,
+          swimFields.pool
+        ])
+      });
+    }
+  }
+
+  // Keep the file in event order, as the clubs' own UNI_p exports are.
+  rows.sort((a, b) => Number(a.event.number) - Number(b.event.number));
+
+  return {
+    content: joinUniPLines([club.name, ...rows.map((row) => row.line)]),
+    rowCount: rows.length,
+    skippedSwims
+  };
+};
@@ -1,60 +1,85 @@
-import type { UniPParseResult, UniPRow } from './types';
-
-const strokeMap: Record<string, string> = {
-  FR: 'FREE',
-  BR: 'BREAST',
-  RY: 'BACK',
-  BU: 'FLY',
-  IM: 'MEDLEY',
-  LM: 'MEDLEY'
+import { parseSwimTime } from './swimTime';
+import type { UniPColumnMapping, UniPDialect, UniPParseResult, UniPRow } from './types';
+import { defaultUniPDialect, formatCodeList } from './unipDialects';
+
+export const uniPFieldCount = 15;
+
+// Field numbers with no defined content, which can be bound to other data.
+export const unusedUniPFields = [6, 10, 14, 15];
+
+// A relay swimmer list in a single column cannot use commas.
+const relaySwimmerListSeparator = /[;|]/;
+
+const uniPDelimiterNames: Record<string, string> = { ',': 'comma', ';': 'semicolon', '\t': 'tab' };
+const uniPDelimiters = Object.keys(uniPDelimiterNames);
+
+type TokenizedLine = {
+  fields: string[];
+  // 1-based character column where each field starts, followed by the column after the end of the line.
+  columns: number[];
+  error: string | null;
 };
 
-const genderMap: Record<string, string> = {
-  M: 'M',
-  K: 'F',
-  X: 'X'
+// Fields may be quoted to contain the delimiter, with "" for a quote inside a quoted field.
+export const tokenizeUniPLine = (line: string, delimiter: string): TokenizedLine => {
+  // Trailing tabs are empty fields in tab-delimited files.
+  const source = line.replace(delimiter === '\t' ? /[ \r]+$/ : /\s+$/, '');
+  const fields: string[] = [];
+  const columns: number[] = [];
+  let index = 0;
+
+  while (index <= source.length) {
+    columns.push(index + 1);
+    let fieldEnd = source.indexOf(delimiter, index);
+    const offset = source.slice(index).search(/[^ ]/);
+    const quoteStart = offset < 0 ? -1 : index + offset;
+
+    if (source[quoteStart] === '"' && (fieldEnd < 0 || quoteStart < fieldEnd)) {
+      let value = '';
+      let position = quoteStart + 1;
+      while (true) {
+        const quote = source.indexOf('"', position);
+        if (quote < 0) {
+          return { fields, columns, error: `Unterminated quoted field starting at column ${quoteStart + 1}` };
+        }
+        value += source.slice(position, quote);
+        if (source[quote + 1] !== '"') {
+          position = quote + 1;
+          break;
+        }
+        value += '"';
+        position = quote + 2;
+      }
+
+      fieldEnd = position + (source.slice(position).match(/^ */)?.[0].length ?? 0);
+      if (fieldEnd < source.length && !source.startsWith(delimiter, fieldEnd)) {
+        return { fields, columns, error: `Unexpected text after the closing quote at column ${fieldEnd + 1}` };
+      }
+      fields.push(value);
+    } else {
+      fieldEnd = fieldEnd < 0 ? source.length : fieldEnd;
+      fields.push(source.slice(index, fieldEnd));
+    }
+
+    index = fieldEnd + delimiter.length;
+  }
+
+  columns.push(source.length + 1);
+  return { fields, columns, error: null };
 };
 
-const ageGroupMap: Record<string, string> = {
-  JR: 'Junior',
-  SR: 'Senior',
-  YJ: 'Yngre junior',
-  EJ: 'Eldre junior',
-  MA: 'Masters A',
-  MB: 'Masters B',
-  MC: 'Masters C',
-  MD: 'Masters D',
-  ME: 'Masters E',
-  MF: 'Masters F',
-  MG: 'Masters G',
-  MH: 'Masters H',
-  MI: 'Masters I',
-  MJ: 'Masters J',
-  MK: 'Masters K',
-  ML: 'Masters L',
-  MM: 'Masters M',
-  MN: 'Masters N',
-  MO: 'Masters O'
+// The delimiter that gives most lines at least the 13 fields up to the pool length. Ties go to the comma.
+export const detectUniPDelimiter = (lines: string[], minimumFields = 13) => {
+  const scores = uniPDelimiters.map(
+    (delimiter) => lines.filter((line) => tokenizeUniPLine(line, delimiter).fields.length >= minimumFields).length
+  );
+  return uniPDelimiters[scores.indexOf(Math.max(...scores))];
 };
 
-const relayClassMap: Record<string, string> = {
-  JUNIOR: 'Junior',
-  SENIOR: 'Senior',
-  MASTERSA: 'Masters A',
-  MASTERSB: 'Masters B',
-  MASTERSC: 'Masters C',
-  MASTERSD: 'Masters D',
-  MASTERSE: 'Masters E',
-  MASTERSF: 'Masters F',
-  MASTERSG: 'Masters G',
-  MASTERSH: 'Masters H',
-  MASTERSI: 'Masters I',
-  MASTERSJ: 'Masters J',
-  MASTERSK: 'Masters K',
-  MASTERSL: 'Masters L',
-  MASTERSM: 'Masters M',
-  MASTERSN: 'Masters N',
-  MASTERSO: 'Masters O'
+// Spreadsheet exports pad the club name line with empty fields.
+const parseClubNameLine = (line: string, delimiter: string) => {
+  const { fields, error } = tokenizeUniPLine(line, delimiter);
+  return !error && fields.slice(1).every((field) => !field.trim()) ? fields[0].trim() : line.trim();
 };
 
 const normalizeField = (value: string | undefined) => (value ?? '').trim();
@@ -99,22 +124,25 @@ const parseDistance = (value: string): { relayCount: number; distance: number |
   };
 };
 
-const parseGenderAndAgeGroup = (value: string): { gender: string; ageGroupCode: string; issues: string[] } => {
+const parseGenderAndAgeGroup = (
+  value: string,
+  dialect: UniPDialect
+): { gender: string; ageGroupCode: string; issues: string[] } => {
   const trimmed = normalizeField(value).toUpperCase();
   if (!trimmed) {
     return { gender: '', ageGroupCode: '', issues: ['Field 7 (gender+agegroup) is missing'] };
   }
 
   const genderCode = trimmed[0];
-  const gender = genderMap[genderCode] ?? '';
+  const gender = dialect.genders[genderCode] ?? '';
   const ageGroupCodeRaw = trimmed.slice(1);
   const ageGroupCode = /^\d{2}$/.test(ageGroupCodeRaw)
     ? `Born YY=${ageGroupCodeRaw}`
-    : ageGroupMap[ageGroupCodeRaw] ?? ageGroupCodeRaw;
+    : dialect.ageGroups[ageGroupCodeRaw] ?? ageGroupCodeRaw;
 
   const issues: string[] = [];
   if (!gender) {
-    issues.push(`Unknown gender code "${genderCode}" in field 7`);
+    issues.push(`Unknown gender code "${genderCode}" in field 7 (${dialect.name}: ${formatCodeList(dialect.genders)})`);
   }
   if (!ageGroupCodeRaw) {
     issues.push('Field 7 agegroup part is missing');
@@ -126,7 +154,8 @@ const parseGenderAndAgeGroup = (value: string): { gender: string; ageGroupCode:
 const parseBirthYearOrClass = (
   value: string,
   isRelay: boolean,
-  ageGroupFromField7: string
+  ageGroupFromField7: string,
+  dialect: UniPDialect
 ): { birthYearOrClass: string; issues: string[] } => {
   if (isRelay) {
     // For relay rows, field 7 is authoritative for class/category and field 8 is ignored.
@@ -142,8 +171,8 @@ const parseBirthYearOrClass = (
     return { birthYearOrClass: trimmed, issues: [] };
   }
 
-  if (relayClassMap[trimmed]) {
-    return { birthYearOrClass: relayClassMap[trimmed], issues: [] };
+  if (dialect.relayClasses[trimmed]) {
+    return { birthYearOrClass: dialect.relayClasses[trimmed], issues: [] };
   }
 
   if (/^(S|SB|SM)(1[0-5]|[1-9])$/.test(trimmed)) {
@@ -171,108 +200,185 @@ const parsePoolCourse = (value: string): string | null => {
   return null;
 };
 
-export const parseUniP = (content: string): UniPParseResult => {
-  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+const getBoundField = (fields: string[], columnMapping: UniPColumnMapping, binding: string) => {
+  const fieldNumber = unusedUniPFields.find((item) => columnMapping[item] === binding);
+  return fieldNumber ? normalizeField(fields[fieldNumber - 1]) : '';
+};
 
-  if (lines.length === 0) {
-    throw new Error('UNI_p file is empty.');
+export const parseUniPLine = (
+  sourceFields: string[],
+  lineNumber: number,
+  dialect: UniPDialect = defaultUniPDialect,
+  columnMapping: UniPColumnMapping = {}
+): UniPRow => {
+  const fields = [...sourceFields];
+  while (fields.length < uniPFieldCount) {
+    fields.push('');
   }
 
-  const clubName = lines[0].trim();
-  const rows: UniPRow[] = [];
+  const eventNumberRaw = normalizeField(fields[0]);
+  const distanceInfo = parseDistance(fields[1]);
+  const strokeCode = normalizeField(fields[2]).toUpperCase();
+  const stroke = dialect.strokes[strokeCode] ?? '';
+  const lastName = normalizeField(fields[3]);
+  const firstName = normalizeField(fields[4]);
+
+  const genderInfo = parseGenderAndAgeGroup(fields[6], dialect);
+  const isRelay = distanceInfo.relayCount > 1;
+  const birthInfo = parseBirthYearOrClass(fields[7], isRelay, genderInfo.ageGroupCode, dialect);
+  const field7Raw = normalizeField(fields[6]).toUpperCase();
+
+  const qualificationTime = normalizeField(fields[8]) || null;
+  const entryTimeInfo = parseSwimTime(qualificationTime);
+  const qualificationDate = normalizeField(fields[10]) || null;
+  const qualificationPlace = normalizeField(fields[11]) || null;
+  const poolCourse = parsePoolCourse(fields[12]);
+  // Fields 16 and up take precedence over a bound relay swimmer column.
+  const relaySwimmerList = isRelay ? getBoundField(fields, columnMapping, 'relaySwimmers') : '';
+  const trailingSwimmers = isRelay ? fields.slice(uniPFieldCount).map(normalizeField) : [];
+  const relaySwimmers =
+    trailingSwimmers.some(Boolean) || !relaySwimmerList
+      ? trailingSwimmers
+      : relaySwimmerList.split(relaySwimmerListSeparator).map((name) => name.trim());
+  while (relaySwimmers.length > 0 && !relaySwimmers[relaySwimmers.length - 1]) {
+    relaySwimmers.pop();
+  }
 
-  for (let lineIndex = 1; lineIndex < lines.length; lineIndex += 1) {
-    const sourceLine = lines[lineIndex];
-    const fields = sourceLine.split(',').map((part) => part ?? '');
-    while (fields.length < 15) {
-      fields.push('');
-    }
+  const issues: string[] = [...distanceInfo.issues, ...genderInfo.issues, ...birthInfo.issues];
+  const warnings: string[] = [];
 
-    const eventNumberRaw = normalizeField(fields[0]);
-    const distanceInfo = parseDistance(fields[1]);
-    const strokeCode = normalizeField(fields[2]).toUpperCase();
-    const stroke = strokeMap[strokeCode] ?? '';
-    const lastName = normalizeField(fields[3]);
-    const firstName = normalizeField(fields[4]);
+  for (const fieldNumber of unusedUniPFields) {
+    const value = normalizeField(fields[fieldNumber - 1]);
+    if (value && !columnMapping[fieldNumber]) {
+      warnings.push(`Field ${fieldNumber} is expected to be empty but contains "${value}"`);
+    }
+  }
 
-    const genderInfo = parseGenderAndAgeGroup(fields[6]);
-    const isRelay = distanceInfo.relayCount > 1;
-    const birthInfo = parseBirthYearOrClass(fields[7], isRelay, genderInfo.ageGroupCode);
-    const field7Raw = normalizeField(fields[6]).toUpperCase();
+  const eventNumber = /^\d+$/.test(eventNumberRaw) ? Number(eventNumberRaw) : null;
+  if (eventNumber === null) {
+    issues.push('Field 1 (event number) is missing or invalid');
+  }
 
-    const qualificationTime = normalizeField(fields[8]) || null;
-    const qualificationDate = normalizeField(fields[10]) || null;
-    const qualificationPlace = normalizeField(fields[11]) || null;
-    const poolCourse = parsePoolCourse(fields[12]);
+  if (!stroke) {
+    issues.push(
+      `Field 3 (stroke) value "${strokeCode}" is unknown (${dialect.name}: ${formatCodeList(dialect.strokes)})`
+    );
+  }
 
-    const issues: string[] = [...distanceInfo.issues, ...genderInfo.issues, ...birthInfo.issues];
+  if (!lastName) {
+    issues.push('Field 4 (last name/team) is missing');
+  }
 
-    const eventNumber = /^\d+$/.test(eventNumberRaw) ? Number(eventNumberRaw) : null;
-    if (eventNumber === null) {
-      issues.push('Field 1 (event number) is missing or invalid');
-    }
+  if (!isRelay && !firstName) {
+    issues.push('Field 5 (first name) is missing for an individual event');
+  }
 
-    if (!stroke) {
-      issues.push(`Field 3 (stroke) value "${strokeCode}" is unknown`);
-    }
+  if (entryTimeInfo.error) {
+    issues.push(`Field 9 (qualification time) ${entryTimeInfo.error}`);
+  }
 
-    if (!lastName) {
-      issues.push('Field 4 (last name/team) is missing');
-    }
+  if (relaySwimmers.length > distanceInfo.relayCount) {
+    issues.push(
+      `Fields 16+ list ${relaySwimmers.length} relay swimmers, but the relay has ${distanceInfo.relayCount} legs`
+    );
+  }
 
-    if (!isRelay && !firstName) {
-      issues.push('Field 5 (first name) is missing for an individual event');
+  if (isRelay) {
+    const mastersRelayClassMatch = field7Raw.match(/^(.)M(.)$/);
+    if (mastersRelayClassMatch && dialect.genders[mastersRelayClassMatch[1]]) {
+      const mastersClassCode = mastersRelayClassMatch[2];
+      const isAllowedMastersClass = /^[OA-G]$/.test(mastersClassCode);
+      if (!isAllowedMastersClass) {
+        issues.push(`Invalid masters relay class in field 7 "${field7Raw}" (allowed: O, A-G)`);
+      }
     }
+  }
 
-    if (isRelay) {
-      const mastersRelayClassMatch = field7Raw.match(/^[MKX]M(.)$/);
-      if (mastersRelayClassMatch) {
-        const mastersClassCode = mastersRelayClassMatch[1];
-        const isAllowedMastersClass = /^[OA-G]$/.test(mastersClassCode);
-        if (!isAllowedMastersClass) {
-          issues.push(`Invalid masters relay class in field 7 "${field7Raw}" (allowed: O, A-G)`);
-        }
+  if (!isRelay && stroke) {
+    const paraClassPrefix = parseParaClassPrefix(birthInfo.birthYearOrClass);
+    if (paraClassPrefix) {
+      const expectedPrefixByStroke: Record<string, 'S' | 'SB' | 'SM' | null> = {
+        FREE: 'S',
+        FLY: 'S',
+        BACK: 'S',
+        BREAST: 'SB',
+        MEDLEY: 'SM'
+      };
+
+      const expectedPrefix = expectedPrefixByStroke[stroke] ?? null;
+      if (expectedPrefix && paraClassPrefix !== expectedPrefix) {
+        issues.push(
+          `Invalid para class "${birthInfo.birthYearOrClass}" for stroke ${strokeCode} (expected ${expectedPrefix} class)`
+        );
       }
     }
+  }
 
-    if (!isRelay && stroke) {
-      const paraClassPrefix = parseParaClassPrefix(birthInfo.birthYearOrClass);
-      if (paraClassPrefix) {
-        const expectedPrefixByStroke: Record<string, 'S' | 'SB' | 'SM' | null> = {
-          FR: 'S',
-          BU: 'S',
-          RY: 'S',
-          BR: 'SB',
-          IM: 'SM'
-        };
-
-        const expectedPrefix = expectedPrefixByStroke[strokeCode] ?? null;
-        if (expectedPrefix && paraClassPrefix !== expectedPrefix) {
-          issues.push(
-            `Invalid para class "${birthInfo.birthYearOrClass}" for stroke ${strokeCode} (expected ${expectedPrefix} class)`
-          );
-        }
-      }
+  return {
+    lineNumber,
+    eventNumber,
+    relayCount: distanceInfo.relayCount,
+    distance: distanceInfo.distance,
+    strokeCode,
+    stroke,
+    lastName,
+    firstName,
+    gender: genderInfo.gender,
+    ageGroupCode: genderInfo.ageGroupCode,
+    birthYearOrClass: birthInfo.birthYearOrClass,
+    qualificationTime,
+    entryTime: entryTimeInfo.hundredths,
+    qualificationDate,
+    qualificationPlace,
+    poolCourse,
+    relaySwimmers,
+    license: getBoundField(fields, columnMapping, 'license') || null,
+    nation: getBoundField(fields, columnMapping, 'nation').toUpperCase() || null,
+    fields,
+    issues,
+    warnings
+  };
+};
+
+export const parseUniP = (
+  content: string,
+  dialect: UniPDialect = defaultUniPDialect,
+  columnMapping: UniPColumnMapping = {}
+): UniPParseResult => {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+
+  if (lines.length === 0) {
+    throw new Error('UNI_p file is empty.');
+  }
+
+  const delimiter = detectUniPDelimiter(lines.slice(1));
+  const clubName = parseClubNameLine(lines[0], delimiter);
+  const rows: UniPRow[] = [];
+
+  for (let lineIndex = 1; lineIndex < lines.length; lineIndex += 1) {
+    const { fields, columns, error } = tokenizeUniPLine(lines[lineIndex], delimiter);
+    if (error) {
+      const row = parseUniPLine(lines[lineIndex].split(delimiter), lineIndex + 1, dialect, columnMapping);
+      rows.push({ ...row, issues: [error, ...row.issues] });
+      continue;
     }
 
-    rows.push({
-      lineNumber: lineIndex + 1,
-      eventNumber,
-      relayCount: distanceInfo.relayCount,
-      distance: distanceInfo.distance,
-      strokeCode,
-      stroke,
-      lastName,
-      firstName,
-      gender: genderInfo.gender,
-      ageGroupCode: genderInfo.ageGroupCode,
-      birthYearOrClass: birthInfo.birthYearOrClass,
-      qualificationTime,
-      qualificationDate,
-      qualificationPlace,
-      poolCourse,
-      issues
-    });
+    const row = parseUniPLine(fields, lineIndex + 1, dialect, columnMapping);
+    const issues = [...row.issues];
+    const warnings = [...row.warnings];
+    // Relay rows continue with the relay swimmers, which are checked against the number of legs.
+    if (fields.length > uniPFieldCount && row.relayCount <= 1) {
+      issues.unshift(
+        `Line has ${fields.length} fields, expected ${uniPFieldCount}: field ${uniPFieldCount + 1} starts at column ` +
+          `${columns[uniPFieldCount]} (unquoted ${uniPDelimiterNames[delimiter]} in a value?)`
+      );
+    }
+    if (fields.length < uniPFieldCount) {
+      warnings.unshift(
+        `Line has ${fields.length} fields, expected ${uniPFieldCount}: it ends at column ${columns[fields.length] - 1}`
+      );
+    }
+    rows.push({ ...row, issues, warnings });
   }
 
   return {
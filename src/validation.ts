@@ -0,0 +1,700 @@
+import { convertSwimTime, defaultCourseConversionTable } from './courseConversion';
+import { formatSwimTime, parseLenexSwimTime } from './swimTime';
+import type {
+  ConversionOptions,
+  CourseConversionTable,
+  EntryLimits,
+  LenexAgeGroup,
+  LenexEvent,
+  LenexMeetSummary,
+  LenexTimeStandard,
+  UniPRow
+} from './types';
+
+export const forbiddenRegistrationRounds = new Set(['FIN', 'SEM', 'QUA', 'SOP', 'SOS', 'SOQ']);
+
+export const defaultConversionOptions: ConversionOptions = {
+  checkRelayAgeClasses: false,
+  convertEntryTimes: false,
+  courseConversionTable: defaultCourseConversionTable,
+  entryLimitOverrides: { athleteMeet: null, athleteSession: null, relayEvent: null, clubEvent: null }
+};
+
+// Masters relay classes by total age of the swimmers. Class O is the 80-99 class.
+export const mastersRelayClasses = [
+  { code: 'O', ageTotalMin: 80, ageTotalMax: 99 },
+  { code: 'A', ageTotalMin: 100, ageTotalMax: 119 },
+  { code: 'B', ageTotalMin: 120, ageTotalMax: 159 },
+  { code: 'C', ageTotalMin: 160, ageTotalMax: 199 },
+  { code: 'D', ageTotalMin: 200, ageTotalMax: 239 },
+  { code: 'E', ageTotalMin: 240, ageTotalMax: 279 },
+  { code: 'F', ageTotalMin: 280, ageTotalMax: 319 },
+  { code: 'G', ageTotalMin: 320, ageTotalMax: 359 }
+];
+
+export const inferFullYearFromAgeGroup = (ageGroupCode: string): string | null => {
+  const match = ageGroupCode.match(/^Born YY=(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const yy = Number(match[1]);
+  const currentYearShort = new Date().getFullYear() % 100;
+  const fullYear = yy <= currentYearShort ? 2000 + yy : 1900 + yy;
+  return String(fullYear);
+};
+
+export const inferBirthYear = (row: UniPRow): string | null => {
+  if (/^\d{4}$/.test(row.birthYearOrClass)) {
+    return row.birthYearOrClass;
+  }
+
+  return inferFullYearFromAgeGroup(row.ageGroupCode);
+};
+
+export const mergeIssues = (baseIssues: string[], validationIssues: string[]) =>
+  Array.from(new Set([...baseIssues, ...validationIssues]));
+
+export const getAthleteKey = (row: UniPRow) =>
+  `${row.lastName}|${row.firstName}|${row.gender}|${inferBirthYear(row) ?? ''}`;
+
+const exactAgeDateTypes = new Set(['DATE', 'CAN.FNQ']);
+
+// Without an AGEDATE the age is counted by the year of the session.
+const getAgeReferenceDate = (event: LenexEvent) => event.ageDate?.value || event.sessionDate;
+
+const usesExactAge = (event: LenexEvent) => exactAgeDateTypes.has(event.ageDate?.type ?? '');
+
+export const describeAgeRule = (event: LenexEvent): string => {
+  if (!event.ageDate) {
+    return `age by year of the session date ${event.sessionDate}`;
+  }
+
+  return usesExactAge(event)
+    ? `age on ${event.ageDate.value} per AGEDATE type ${event.ageDate.type}`
+    : `age by year of ${event.ageDate.value} per AGEDATE type ${event.ageDate.type}`;
+};
+
+// With an exact-age rule and only a year of birth, the swimmer may or may not have had the birthday yet,
+// so the age is a range of two years.
+export const getAgeRange = (
+  row: UniPRow,
+  event: LenexEvent,
+  birthDate: string | null = null
+): { min: number; max: number } | null => {
+  if (row.relayCount > 1) {
+    return null;
+  }
+
+  const birthYear = birthDate?.slice(0, 4) ?? inferBirthYear(row);
+  if (!birthYear || !/^\d{4}$/.test(birthYear)) {
+    return null;
+  }
+
+  const referenceDateMatch = getAgeReferenceDate(event).match(/^(\d{4})(?:-(\d{2})-(\d{2}))?/);
+  if (!referenceDateMatch) {
+    return null;
+  }
+
+  const yearAge = Number(referenceDateMatch[1]) - Number(birthYear);
+  if (!usesExactAge(event)) {
+    return { min: yearAge, max: yearAge };
+  }
+
+  const referenceMonthDay = referenceDateMatch[2] ? `${referenceDateMatch[2]}-${referenceDateMatch[3]}` : null;
+  const birthMonthDay = birthDate?.slice(5) ?? null;
+  if (!referenceMonthDay || !birthMonthDay) {
+    return { min: yearAge - 1, max: yearAge };
+  }
+
+  const age = birthMonthDay > referenceMonthDay ? yearAge - 1 : yearAge;
+  return { min: age, max: age };
+};
+
+// The swimmer's age per the meet's age rule, or null when it is not known exactly.
+export const getAgeOnAgeDate = (row: UniPRow, event: LenexEvent, birthDate: string | null = null): number | null => {
+  const ageRange = getAgeRange(row, event, birthDate);
+  return ageRange && ageRange.min === ageRange.max ? ageRange.min : null;
+};
+
+const isAgeInAnyEventAgeGroup = (age: number, event: LenexEvent): boolean => {
+  if (event.ageGroups.length === 0) {
+    return true;
+  }
+
+  return event.ageGroups.some((ageGroup) => {
+    const minOk = ageGroup.agemin < 0 || age >= ageGroup.agemin;
+    const maxOk = ageGroup.agemax < 0 || age <= ageGroup.agemax;
+    return minOk && maxOk;
+  });
+};
+
+export type TimeStandardCheck = {
+  standard: LenexTimeStandard;
+  // Entry time in the course of the standard, null when the row has no time.
+  entryTime: number | null;
+  // Course the entry time was converted from, null when no conversion was needed.
+  convertedFrom: string | null;
+  // Entry time minus the standard in hundredths, negative when faster.
+  margin: number | null;
+  passes: boolean;
+};
+
+const isQualifyingStandard = (standard: LenexTimeStandard) => standard.type !== 'MINIMUM';
+
+const fitsTimeStandard = (row: UniPRow, standard: LenexTimeStandard, ageRange: { min: number; max: number } | null) => {
+  if (standard.gender && standard.gender !== row.gender) {
+    return false;
+  }
+
+  // Without a known age every age group may apply, which keeps the check on the lenient side.
+  if (!ageRange) {
+    return true;
+  }
+
+  const minOk = standard.agemin < 0 || ageRange.max >= standard.agemin;
+  const maxOk = standard.agemax < 0 || ageRange.min <= standard.agemax;
+  return minOk && maxOk;
+};
+
+const checkTimeStandard = (
+  row: UniPRow,
+  event: LenexEvent,
+  standard: LenexTimeStandard,
+  conversionTable: CourseConversionTable
+): TimeStandardCheck | null => {
+  const limit = parseLenexSwimTime(standard.swimTime);
+  if (limit === null) {
+    return null;
+  }
+
+  const { entryTime } = row;
+  const needsConversion = Boolean(row.poolCourse && standard.course && row.poolCourse !== standard.course);
+  const comparableTime =
+    entryTime !== null && needsConversion && row.poolCourse
+      ? convertSwimTime(entryTime, row.poolCourse, standard.course, event.stroke, event.distance, conversionTable)
+      : entryTime;
+  if (entryTime !== null && comparableTime === null) {
+    return null;
+  }
+
+  const margin = comparableTime === null ? null : comparableTime - limit;
+  const passes = isQualifyingStandard(standard) ? margin !== null && margin <= 0 : margin === null || margin >= 0;
+
+  return {
+    standard,
+    entryTime: comparableTime,
+    convertedFrom: needsConversion ? row.poolCourse : null,
+    margin,
+    passes
+  };
+};
+
+// The most lenient qualifying check and the most lenient "not faster than" check that apply to the row.
+export const getTimeStandardChecks = (
+  row: UniPRow,
+  event: LenexEvent,
+  birthDate: string | null = null,
+  conversionTable: CourseConversionTable = defaultCourseConversionTable
+): TimeStandardCheck[] => {
+  const ageRange = getAgeRange(row, event, birthDate);
+  const checks = event.timeStandards
+    .filter((standard) => fitsTimeStandard(row, standard, ageRange))
+    .map((standard) => checkTimeStandard(row, event, standard, conversionTable))
+    .filter((check): check is TimeStandardCheck => check !== null);
+
+  const pickMostLenient = (candidates: TimeStandardCheck[], compare: (a: number, b: number) => number) =>
+    candidates.find((check) => check.passes) ??
+    [...candidates].sort((a, b) => compare(a.margin ?? 0, b.margin ?? 0))[0];
+
+  const qualifyingChecks = checks.filter((check) => isQualifyingStandard(check.standard));
+  const minimumChecks = checks.filter((check) => !isQualifyingStandard(check.standard));
+
+  return [pickMostLenient(qualifyingChecks, (a, b) => a - b), pickMostLenient(minimumChecks, (a, b) => b - a)].filter(
+    (check): check is TimeStandardCheck => check !== undefined
+  );
+};
+
+const formatTimeStandardIssue = (check: TimeStandardCheck): string => {
+  const limit = formatSwimTime(parseLenexSwimTime(check.standard.swimTime) ?? 0);
+  const listLabel = [check.standard.listName, check.standard.course].filter(Boolean).join(', ');
+
+  if (check.entryTime === null || check.margin === null) {
+    return `No entry time for the qualifying time ${limit} (${listLabel})`;
+  }
+
+  const converted = check.convertedFrom ? ` (converted from ${check.convertedFrom})` : '';
+  const entry = `Entry time ${formatSwimTime(check.entryTime)}${converted}`;
+  const difference = `${(Math.abs(check.margin) / 100).toFixed(2)} s`;
+  return isQualifyingStandard(check.standard)
+    ? `${entry} is ${difference} slower than the qualifying time ${limit} (${listLabel})`
+    : `${entry} is ${difference} faster than the limit ${limit} (${listLabel})`;
+};
+
+export const groupEventsByNumber = (summary: LenexMeetSummary | null): Map<string, LenexEvent[]> => {
+  const eventsByNumber = new Map<string, LenexEvent[]>();
+
+  if (!summary) {
+    return eventsByNumber;
+  }
+
+  for (const session of summary.sessions) {
+    for (const event of session.events) {
+      const existing = eventsByNumber.get(event.number) ?? [];
+      existing.push(event);
+      eventsByNumber.set(event.number, existing);
+    }
+  }
+
+  return eventsByNumber;
+};
+
+export const validateRowAgainstLenex = (
+  row: UniPRow,
+  eventsByNumber: Map<string, LenexEvent[]>,
+  hasLenex: boolean,
+  birthDate: string | null = null,
+  conversionTable: CourseConversionTable = defaultCourseConversionTable
+): string[] => {
+  if (!hasLenex || row.eventNumber === null) {
+    return [];
+  }
+
+  const candidates = eventsByNumber.get(String(row.eventNumber)) ?? [];
+  if (candidates.length === 0) {
+    return ['Invalid event'];
+  }
+
+  const issues: string[] = [];
+
+  if (!candidates.some((event) => event.relayCount === row.relayCount)) {
+    issues.push('Invalid length');
+  }
+
+  if (!candidates.some((event) => event.distance === row.distance)) {
+    issues.push('Invalid distance');
+  }
+
+  if (row.stroke && !candidates.some((event) => event.stroke === row.stroke)) {
+    issues.push('Invalid style');
+  }
+
+  if (row.gender && !candidates.some((event) => event.gender === row.gender)) {
+    issues.push('Invalid gender');
+  }
+
+  const compatibleCandidates = candidates.filter((event) => {
+    const relayMatches = event.relayCount === row.relayCount;
+    const distanceMatches = event.distance === row.distance;
+    const strokeMatches = !row.stroke || event.stroke === row.stroke;
+    const genderMatches = !row.gender || event.gender === row.gender;
+
+    return relayMatches && distanceMatches && strokeMatches && genderMatches;
+  });
+
+  if (compatibleCandidates.length > 0) {
+    const allowedCandidateExists = compatibleCandidates.some((event) => !forbiddenRegistrationRounds.has(event.round));
+    if (!allowedCandidateExists) {
+      const warnedRounds = Array.from(new Set(compatibleCandidates.map((event) => event.round))).filter((round) =>
+        forbiddenRegistrationRounds.has(round)
+      );
+      warnedRounds.forEach((round) => issues.push(`Registration for ${round}`));
+    }
+
+    const candidatesToCheckAge = compatibleCandidates.filter((event) => !forbiddenRegistrationRounds.has(event.round));
+    const ageCheckCandidates = candidatesToCheckAge.length > 0 ? candidatesToCheckAge : compatibleCandidates;
+    const ageRange = getAgeRange(row, ageCheckCandidates[0], birthDate);
+
+    // Only flagged when none of the possible ages fits, so a swimmer with an unknown birthday is not rejected.
+    if (ageRange) {
+      const possibleAges = ageRange.min === ageRange.max ? [ageRange.min] : [ageRange.min, ageRange.max];
+      const fitsAnyAge = possibleAges.some((age) =>
+        ageCheckCandidates.some((event) => isAgeInAnyEventAgeGroup(age, event))
+      );
+      if (!fitsAnyAge) {
+        const ageText = possibleAges.length > 1 ? `age ${ageRange.min} or ${ageRange.max}` : `age ${ageRange.min}`;
+        const ageRule = describeAgeRule(ageCheckCandidates[0]);
+        issues.push(`Invalid age group (${ageText} not allowed for event ${row.eventNumber}, ${ageRule})`);
+      }
+    }
+
+    const timeStandardChecks = getTimeStandardChecks(row, ageCheckCandidates[0], birthDate, conversionTable);
+    timeStandardChecks.filter((check) => !check.passes).forEach((check) => issues.push(formatTimeStandardIssue(check)));
+  }
+
+  return issues;
+};
+
+export type RelaySwimmer = {
+  position: number;
+  name: string;
+  athleteRow: UniPRow | null;
+};
+
+export const normalizeName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Relay swimmers are linked by name to the club's individual entries, in either "first last" or "last first" order.
+const findAthleteRowsByName = (name: string, clubRows: UniPRow[]): UniPRow[] => {
+  const normalized = normalizeName(name);
+  const matchesByKey = new Map<string, UniPRow>();
+
+  for (const candidate of clubRows) {
+    if (candidate.relayCount > 1 || !candidate.lastName) {
+      continue;
+    }
+
+    const candidateNames = [
+      `${candidate.firstName} ${candidate.lastName}`,
+      `${candidate.lastName} ${candidate.firstName}`
+    ].map(normalizeName);
+    if (candidateNames.includes(normalized)) {
+      matchesByKey.set(getAthleteKey(candidate), candidate);
+    }
+  }
+
+  return Array.from(matchesByKey.values());
+};
+
+export const resolveRelaySwimmers = (row: UniPRow, clubRows: UniPRow[]): RelaySwimmer[] =>
+  row.relaySwimmers.flatMap((name, index) => {
+    if (!name) {
+      return [];
+    }
+
+    const matches = findAthleteRowsByName(name, clubRows);
+    return [{ position: index + 1, name, athleteRow: matches.length === 1 ? matches[0] : null }];
+  });
+
+// Swimmers are linked to the club's rows, but only the exported rows get an ATHLETE for the RELAYPOSITION.
+const validateRelaySwimmers = (row: UniPRow, clubRows: UniPRow[], exportedRows: UniPRow[]): string[] => {
+  if (row.relayCount <= 1 || row.relaySwimmers.length === 0) {
+    return [];
+  }
+
+  const issues: string[] = [];
+  const seenAthleteKeys = new Set<string>();
+  const genders: string[] = [];
+
+  for (const swimmer of resolveRelaySwimmers(row, clubRows)) {
+    const matches = findAthleteRowsByName(swimmer.name, clubRows);
+    if (matches.length === 0) {
+      issues.push(`Relay swimmer "${swimmer.name}" (leg ${swimmer.position}) is not entered in any individual event`);
+      continue;
+    }
+
+    if (matches.length > 1) {
+      issues.push(`Relay swimmer "${swimmer.name}" (leg ${swimmer.position}) matches several swimmers`);
+      continue;
+    }
+
+    const athleteKey = getAthleteKey(matches[0]);
+    if (seenAthleteKeys.has(athleteKey)) {
+      issues.push(`Relay swimmer "${swimmer.name}" is listed more than once`);
+    }
+    seenAthleteKeys.add(athleteKey);
+    genders.push(matches[0].gender);
+
+    if (!exportedRows.some((item) => item.relayCount <= 1 && getAthleteKey(item) === athleteKey)) {
+      const athleteRows = clubRows.filter((item) => item.relayCount <= 1 && getAthleteKey(item) === athleteKey);
+      issues.push(
+        `Relay swimmer "${swimmer.name}" (leg ${swimmer.position}) is only entered on rejected ` +
+          formatLineNumbers(athleteRows)
+      );
+    }
+
+    if ((row.gender === 'M' || row.gender === 'F') && matches[0].gender !== row.gender) {
+      issues.push(`Relay swimmer "${swimmer.name}" does not match relay gender ${row.gender}`);
+    }
+  }
+
+  const allLegsKnown = genders.length === row.relayCount;
+  if (row.gender === 'X' && allLegsKnown) {
+    const men = genders.filter((gender) => gender === 'M').length;
+    if (men * 2 !== genders.length) {
+      issues.push(`Mixed relay needs as many men as women (has ${men} of ${genders.length} men)`);
+    }
+  }
+
+  return issues;
+};
+
+const formatLineNumbers = (rows: UniPRow[]) =>
+  `${rows.length === 1 ? 'line' : 'lines'} ${rows.map((item) => item.lineNumber).join(', ')}`;
+
+// Rows with the same name may still be different swimmers, such as a parent and a child born in other years.
+const hasSameName = (row: UniPRow, other: UniPRow) =>
+  other.relayCount <= 1 &&
+  other.gender === row.gender &&
+  normalizeName(`${other.firstName} ${other.lastName}`) === normalizeName(`${row.firstName} ${row.lastName}`);
+
+const paraClassPattern = /^(S|SB|SM)(\d+)$/;
+
+// Entries that contradict other rows of the same club file. Each issue names the other lines involved.
+const validateConflictingRows = (row: UniPRow, clubRows: UniPRow[]): string[] => {
+  const otherRows = clubRows.filter((other) => other.lineNumber !== row.lineNumber);
+  const issues: string[] = [];
+
+  if (row.relayCount > 1) {
+    const sameName = otherRows.filter(
+      (other) =>
+        other.relayCount > 1 &&
+        other.eventNumber === row.eventNumber &&
+        normalizeName(other.lastName) === normalizeName(row.lastName)
+    );
+    if (row.eventNumber !== null && sameName.length > 0) {
+      issues.push(
+        `Relay "${row.lastName}" is entered in event ${row.eventNumber} again on ${formatLineNumbers(sameName)}`
+      );
+    }
+    return issues;
+  }
+
+  const sameName = otherRows.filter((other) => hasSameName(row, other));
+  const sameSwimmer = sameName.filter((other) => getAthleteKey(other) === getAthleteKey(row));
+  const duplicates = sameSwimmer.filter((other) => other.eventNumber === row.eventNumber);
+  if (row.eventNumber !== null && duplicates.length > 0) {
+    issues.push(`Swimmer is entered in event ${row.eventNumber} again on ${formatLineNumbers(duplicates)}`);
+  }
+
+  const birthYear = inferBirthYear(row);
+  const otherBirthYears = sameName.filter((other) => {
+    const otherBirthYear = inferBirthYear(other);
+    return Boolean(birthYear && otherBirthYear && otherBirthYear !== birthYear);
+  });
+  if (otherBirthYears.length > 0) {
+    const years = Array.from(new Set(otherBirthYears.map(inferBirthYear))).join(', ');
+    issues.push(`Birth year ${birthYear} differs from ${years} on ${formatLineNumbers(otherBirthYears)}`);
+  }
+
+  // A swimmer has one class per prefix, but S, SB and SM classes differ.
+  const paraClass = row.birthYearOrClass.match(paraClassPattern);
+  const otherParaClasses = sameSwimmer.filter((other) => {
+    const otherParaClass = other.birthYearOrClass.match(paraClassPattern);
+    return Boolean(paraClass && otherParaClass?.[1] === paraClass[1] && otherParaClass[2] !== paraClass[2]);
+  });
+  if (otherParaClasses.length > 0) {
+    const classes = Array.from(new Set(otherParaClasses.map((other) => other.birthYearOrClass))).join(', ');
+    issues.push(`Para class ${row.birthYearOrClass} differs from ${classes} on ${formatLineNumbers(otherParaClasses)}`);
+  }
+
+  return issues;
+};
+
+export const getEffectiveEntryLimits = (limits: EntryLimits, overrides: EntryLimits): EntryLimits => ({
+  athleteMeet: overrides.athleteMeet ?? limits.athleteMeet,
+  athleteSession: overrides.athleteSession ?? limits.athleteSession,
+  relayEvent: overrides.relayEvent ?? limits.relayEvent,
+  clubEvent: overrides.clubEvent ?? limits.clubEvent
+});
+
+// Only rows that are exported are counted, so a row rejected for another reason does not take a place.
+const getLimitIssue = (countedRows: UniPRow[], limit: number | null, description: string) =>
+  limit === null || countedRows.length < limit
+    ? []
+    : [`Exceeds the limit of ${limit} ${description} (entered on ${formatLineNumbers(countedRows)})`];
+
+const validateEntryLimits = (
+  row: UniPRow,
+  exportedRows: UniPRow[],
+  eventsByNumber: Map<string, LenexEvent[]>,
+  overrides: EntryLimits
+): string[] => {
+  const event = findMatchingLenexEvent(row, eventsByNumber);
+  if (!event) {
+    return [];
+  }
+
+  const limits = getEffectiveEntryLimits(event.entryLimits, overrides);
+  const rowsWithEvents = exportedRows
+    .map((item) => ({ item, itemEvent: findMatchingLenexEvent(item, eventsByNumber) }))
+    .filter((entry): entry is { item: UniPRow; itemEvent: LenexEvent } => entry.itemEvent !== null);
+
+  const eventRows = rowsWithEvents.filter(({ itemEvent }) => itemEvent === event).map(({ item }) => item);
+  const eventIssues = getLimitIssue(eventRows, limits.clubEvent, `entries per club in event ${event.number}`);
+
+  if (row.relayCount > 1) {
+    return [
+      ...eventIssues,
+      ...getLimitIssue(eventRows, limits.relayEvent, `relay teams per club in event ${event.number}`)
+    ];
+  }
+
+  const athleteKey = getAthleteKey(row);
+  const swimmerEntries = rowsWithEvents.filter(
+    ({ item }) => item.relayCount <= 1 && getAthleteKey(item) === athleteKey
+  );
+  const sessionRows = swimmerEntries
+    .filter(({ itemEvent }) => itemEvent.sessionNumber === event.sessionNumber)
+    .map(({ item }) => item);
+
+  return [
+    ...eventIssues,
+    ...getLimitIssue(
+      swimmerEntries.map(({ item }) => item),
+      limits.athleteMeet,
+      'individual entries per swimmer in the meet'
+    ),
+    ...getLimitIssue(
+      sessionRows,
+      limits.athleteSession,
+      `individual entries per swimmer in session ${event.sessionNumber}`
+    )
+  ];
+};
+
+const normalizeAgeGroupName = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const formatAgeRange = (ageGroup: LenexAgeGroup) =>
+  `${ageGroup.agemin < 0 ? '' : ageGroup.agemin}-${ageGroup.agemax < 0 ? '' : ageGroup.agemax}`;
+
+// Masters classes are matched on their total age range, other classes (Junior, Senior) on the age group name.
+export const findRelayAgeGroup = (row: UniPRow, event: LenexEvent): LenexAgeGroup | null => {
+  const mastersCode = row.ageGroupCode.match(/^Masters ([A-Z])$/)?.[1];
+  const mastersClass = mastersRelayClasses.find((item) => item.code === mastersCode);
+  if (mastersClass) {
+    const byRange = event.ageGroups.find(
+      (ageGroup) =>
+        ageGroup.calculate === 'TOTAL' &&
+        ageGroup.agemin === mastersClass.ageTotalMin &&
+        ageGroup.agemax === mastersClass.ageTotalMax
+    );
+    if (byRange) {
+      return byRange;
+    }
+  }
+
+  const className = normalizeAgeGroupName(row.ageGroupCode);
+  return event.ageGroups.find((ageGroup) => normalizeAgeGroupName(ageGroup.name) === className) ?? null;
+};
+
+export const getRelayAgeBounds = (ageGroup: LenexAgeGroup) =>
+  ageGroup.calculate === 'TOTAL'
+    ? { agemin: -1, agemax: -1, agetotalmin: ageGroup.agemin, agetotalmax: ageGroup.agemax }
+    : { agemin: ageGroup.agemin, agemax: ageGroup.agemax, agetotalmin: -1, agetotalmax: -1 };
+
+const isWithinAgeGroup = (age: number, ageGroup: LenexAgeGroup) =>
+  (ageGroup.agemin < 0 || age >= ageGroup.agemin) && (ageGroup.agemax < 0 || age <= ageGroup.agemax);
+
+// Ages of the relay swimmers at the event, or null unless every leg is linked to a swimmer with a birth year.
+export const getRelaySwimmerAges = (
+  row: UniPRow,
+  clubRows: UniPRow[],
+  event: LenexEvent,
+  birthDates: Map<string, string>
+): number[] | null => {
+  const ages = resolveRelaySwimmers(row, clubRows).map((swimmer) =>
+    swimmer.athleteRow
+      ? getAgeOnAgeDate(swimmer.athleteRow, event, birthDates.get(getAthleteKey(swimmer.athleteRow)) ?? null)
+      : null
+  );
+  const knownAges = ages.filter((age): age is number => age !== null);
+  return knownAges.length === row.relayCount ? knownAges : null;
+};
+
+const validateRelayAgeClass = (
+  row: UniPRow,
+  clubRows: UniPRow[],
+  eventsByNumber: Map<string, LenexEvent[]>,
+  birthDates: Map<string, string>
+): string[] => {
+  if (row.relayCount <= 1) {
+    return [];
+  }
+
+  const event = findMatchingLenexEvent(row, eventsByNumber);
+  if (!event) {
+    return [];
+  }
+
+  const ageGroup = findRelayAgeGroup(row, event);
+  if (!ageGroup) {
+    return [`Relay class "${row.ageGroupCode}" has no matching age group in event ${event.number}`];
+  }
+
+  const ages = getRelaySwimmerAges(row, clubRows, event, birthDates);
+  if (!ages) {
+    return [];
+  }
+
+  if (ageGroup.calculate === 'TOTAL') {
+    const ageTotal = ages.reduce((sum, age) => sum + age, 0);
+    return isWithinAgeGroup(ageTotal, ageGroup)
+      ? []
+      : [`Relay age total ${ageTotal} is outside ${ageGroup.name} (${formatAgeRange(ageGroup)})`];
+  }
+
+  return ages.every((age) => isWithinAgeGroup(age, ageGroup))
+    ? []
+    : [`Relay swimmer ages are outside ${ageGroup.name} (${formatAgeRange(ageGroup)})`];
+};
+
+export const getRowIssues = (
+  row: UniPRow,
+  eventsByNumber: Map<string, LenexEvent[]>,
+  hasLenex: boolean,
+  birthDate: string | null = null,
+  conversionTable: CourseConversionTable = defaultCourseConversionTable
+): string[] =>
+  mergeIssues(row.issues, validateRowAgainstLenex(row, eventsByNumber, hasLenex, birthDate, conversionTable));
+
+// Row issues including the checks that need the other rows of the same club file, keyed by line number.
+export const getClubRowIssues = (
+  rows: UniPRow[],
+  eventsByNumber: Map<string, LenexEvent[]>,
+  hasLenex: boolean,
+  options: ConversionOptions = defaultConversionOptions,
+  // Full birth dates by athlete key, from the athlete roster.
+  birthDates: Map<string, string> = new Map()
+): Map<number, string[]> => {
+  const issuesByLineNumber = new Map<number, string[]>();
+
+  for (const row of rows) {
+    const birthDate = birthDates.get(getAthleteKey(row)) ?? null;
+    let issues = mergeIssues(
+      getRowIssues(row, eventsByNumber, hasLenex, birthDate, options.courseConversionTable),
+      validateConflictingRows(row, rows)
+    );
+    if (hasLenex && options.checkRelayAgeClasses) {
+      issues = mergeIssues(issues, validateRelayAgeClass(row, rows, eventsByNumber, birthDates));
+    }
+    issuesByLineNumber.set(row.lineNumber, issues);
+  }
+
+  // Rows that pass are taken in file order, individual rows first: relays are checked against the individual rows
+  // that are exported, and the entry limits count only the rows taken before.
+  const exportedRows: UniPRow[] = [];
+  const orderedRows = [...rows.filter((row) => row.relayCount <= 1), ...rows.filter((row) => row.relayCount > 1)];
+  for (const row of orderedRows) {
+    let issues = mergeIssues(
+      issuesByLineNumber.get(row.lineNumber) ?? [],
+      validateRelaySwimmers(row, rows, exportedRows)
+    );
+    if (hasLenex && issues.length === 0) {
+      issues = validateEntryLimits(row, exportedRows, eventsByNumber, options.entryLimitOverrides);
+    }
+    if (issues.length === 0) {
+      exportedRows.push(row);
+    }
+    issuesByLineNumber.set(row.lineNumber, issues);
+  }
+
+  return issuesByLineNumber;
+};
+
+export const findMatchingLenexEvent = (row: UniPRow, eventsByNumber: Map<string, LenexEvent[]>) => {
+  if (row.eventNumber === null) {
+    return null;
+  }
+
+  const candidates = eventsByNumber.get(String(row.eventNumber)) ?? [];
+  return (
+    candidates.find((event) => {
+      const roundAllowed = !forbiddenRegistrationRounds.has(event.round);
+      const relayMatches = event.relayCount === row.relayCount;
+      const distanceMatches = event.distance === row.distance;
+      const strokeMatches = row.stroke ? event.stroke === row.stroke : true;
+      const genderMatches = row.gender ? event.gender === row.gender : true;
+      return roundAllowed && relayMatches && distanceMatches && strokeMatches && genderMatches;
+    }) ?? null
+  );
+};